@@ -1,28 +1,93 @@
-import React, { useCallback, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   createEditor,
   Descendant,
   Editor,
-  Element as SlateElement,
   Node,
   Path,
-  Point,
   Range,
   Text,
   Transforms,
-  BaseEditor,
 } from "slate";
-import { Slate, Editable, ReactEditor, RenderLeafProps, withReact } from "slate-react";
-import { withHistory, HistoryEditor } from "slate-history";
+import { Slate, Editable, ReactEditor, RenderElementProps, RenderLeafProps, useSlate, withReact } from "slate-react";
+import { withHistory } from "slate-history";
 import { GoogleGenerativeAI } from "@google/generative-ai";
-
-declare module "slate" {
-  interface CustomTypes {
-    Editor: BaseEditor & ReactEditor & HistoryEditor;
-    Element: { type: "paragraph"; children: Descendant[] };
-    Text: { text: string };
-  }
-}
+import { CharacterRegistry } from "./CharacterRegistry";
+import { getCharacterAlignmentMatches, pronounLabel, samePronouns } from "./characters";
+import { getParagraphTextNodes, getSuggestionsForParagraph, ProviderFailure, toSuggestions } from "./checker";
+import { DocumentTransfer } from "./DocumentTransfer";
+import {
+  findParagraphById,
+  getStaleParagraphs,
+  isCheckCurrent,
+  isParagraph,
+  pruneStore,
+  rebaseSuggestions,
+  resolveSuggestions,
+  SuggestionStore,
+} from "./documentStore";
+import {
+  addOccurrence,
+  DOCUMENT_ID,
+  getSuggestionOccurrence,
+  IgnoreLists,
+  loadIgnoreLists,
+  saveIgnoreLists,
+} from "./ignoreLists";
+import { GrammarXmlTransfer } from "./GrammarXmlTransfer";
+import { IgnoreListsPanel } from "./IgnoreListsPanel";
+import { AUTO_LANGUAGE, detectLanguage, SUPPORTED_LANGUAGES } from "./language";
+import { parseTokenPatternXml, ruleToXml, validateRuleXml } from "./ltXml";
+import { CorefContext } from "./nlp/coreference";
+import { inferNarrative } from "./nlp/narrative";
+import { providerRegistry } from "./providers";
+import { customRuleRunner } from "./providers/customRuleRunner";
+import { addWordToLTDictionary, DEFAULT_LT_CONFIG } from "./providers/languageTool";
+import { transformStore, transformSuggestions } from "./rebase";
+import { loadGeminiKey, loadState, PersistedState, saveGeminiKey, saveState } from "./storage";
+import {
+  BlockFormat,
+  handleRichTextHotkey,
+  insertSceneBreak,
+  isBlockActive,
+  isMarkActive,
+  MarkFormat,
+  SuggestionDecoration,
+  TextBlockElement,
+  textBlocks,
+  toggleBlock,
+  toggleMark,
+  withRichText,
+} from "./richText";
+import { RuleEditor } from "./RuleEditor";
+import { AppliedEdit, revertEdits, SessionLogEntry } from "./sessionLog";
+import { SessionLogPanel } from "./SessionLogPanel";
+import { MAX_CHOICES, SuggestionCard } from "./SuggestionCard";
+import {
+  Character,
+  CustomRule,
+  LanguageToolConfig,
+  NarrativeStyle,
+  PronounSet,
+  RuleSettings,
+  Suggestion,
+  SuggestionKind,
+  uid,
+} from "./suggestions";
+import {
+  acceptedText,
+  listRevisions,
+  replaceText,
+  resolveRevisions,
+  setTracking,
+  TrackChangesSettings,
+  withRevision,
+  withTrackChanges,
+} from "./trackChanges";
+import { describeRevision, TrackChangesPanel } from "./TrackChangesPanel";
+import { withParagraphIds } from "./withParagraphIds";
+import { withPaste } from "./withPaste";
+import { asOneUndoStep, withUndoSteps } from "./withUndoSteps";
 
 /**
  * Demo goal:
@@ -32,33 +97,15 @@ declare module "slate" {
  *   inferred from the *sentence containing the cursor*.
  *
  * This is intentionally not "perfect grammar"—it's meant to be a clean MVP you can
- * swap later with LanguageTool/retext/LLM patches without changing the UI contract.
+ * swap later with LanguageTool/retext/LLM patches without changing the UI contract:
+ * every checker is a `SuggestionProvider` in `./providers`, and the editor only ever
+ * sees the `Suggestion` shape produced by `getSuggestionsForParagraph`.
  */
 
-type SuggestionKind =
-  | "grammar"
-  | "pov-pronoun-propagation";
-
-type Suggestion = {
-  id: string;
-  kind: SuggestionKind;
-  range: Range; // slate range (can span multiple nodes)
-  replacement: string;
-  reason: string;
-};
-
-type CustomRule = {
-  id: string;
-  intent: string;
-  pattern: string; // The regex pattern
-  message: string;
-  replacement: string;
-  xml?: string;
-};
-
 const initialValue: Descendant[] = [
   {
     type: "paragraph",
+    id: uid(),
     children: [
       {
         text:
@@ -69,6 +116,7 @@ const initialValue: Descendant[] = [
   },
   {
     type: "paragraph",
+    id: uid(),
     children: [
       {
         text:
@@ -79,436 +127,236 @@ const initialValue: Descendant[] = [
   },
 ];
 
-function isParagraph(n: any): n is SlateElement {
-  return SlateElement.isElement(n) && n.type === "paragraph";
-}
-
-function uid() {
-  // Good enough for a demo
-  return Math.random().toString(16).slice(2);
-}
-
-function getLocalGrammarSuggestions(text: string, customRules: CustomRule[] = []): any[] {
-  const matches: any[] = [];
-
-  // 1. Core local rules (It were)
-  const itWereRe = /(?<!\b(if|wish|suppose|that)\s+)\b(it|she|he)\b\s+(were)\b/gi;
-  for (const m of text.matchAll(itWereRe)) {
-    const start = m.index ?? 0;
-    const subject = m[2];
-    matches.push({
-      message: `Use "was" for indicative statements with "${subject}".`,
-      offset: start,
-      length: m[0].length,
-      replacements: [{ value: `${subject} was` }]
-    });
-  }
+// Used on first run, and for anything the saved state doesn't have.
+const defaultState: PersistedState = {
+  document: initialValue,
+  customRules: [],
+  characters: [],
+  narrative: { person: null, tense: null, narratorId: null },
+  ruleSettings: {
+    ltTypos: true,
+    ltGrammar: true,
+    ltStyle: true,
+    ltPunctuation: true,
+    povPropagation: true,
+    localFallbacks: true,
+    narrativeConsistency: true,
+  },
+  languageTool: DEFAULT_LT_CONFIG,
+  documentLanguage: import.meta.env.VITE_DOCUMENT_LANGUAGE || "en-US",
+  trackChanges: { enabled: false, author: "Author" },
+};
 
-  // 2. User-defined "AI" rules
-  for (const rule of customRules) {
-    try {
-      const re = new RegExp(rule.pattern, "gi");
-      for (const m of text.matchAll(re)) {
-        const original = m[0];
-        const replacement = rule.replacement ? matchCase(rule.replacement, original) : "";
-        matches.push({
-          message: rule.message,
-          offset: m.index ?? 0,
-          length: original.length,
-          replacements: [{ value: replacement }]
-        });
-      }
-    } catch (e) {
-      console.error("Invalid custom rule pattern:", rule.pattern);
-    }
+// ------------------------- Slate element rendering ------------------------
+
+function Element({ attributes, children, element }: RenderElementProps) {
+  switch (element.type) {
+    case "bulleted-list":
+      return <ul {...attributes}>{children}</ul>;
+    case "numbered-list":
+      return <ol {...attributes}>{children}</ol>;
+    case "scene-break":
+      return (
+        <div {...attributes} contentEditable={false} style={{ textAlign: "center", margin: "12px 0", opacity: 0.6 }}>
+          * * *
+          {children}
+        </div>
+      );
   }
 
-  return matches;
-}
-
-// ------------------------- Grammar engine (Hybrid) ----------------------------
-
-async function getSuggestionsFromLT(
-  text: string,
-  language = "en-US",
-  disabledCategories: string[] = []
-): Promise<any[]> {
-  try {
-    const params = new URLSearchParams();
-    params.append("text", text);
-    params.append("language", language);
-    if (disabledCategories.length > 0) {
-      params.append("disabledCategories", disabledCategories.join(","));
-    }
-
-    const response = await fetch("https://api.languagetool.org/v2/check", {
-      method: "POST",
-      body: params,
-    });
-    const data = await response.json();
-    return data.matches || [];
-  } catch (err) {
-    console.error("LanguageTool API error:", err);
-    return [];
+  // `lang` lets the browser's own spellchecker and hyphenation follow the paragraph language.
+  const props = { ...attributes, lang: element.lang };
+  switch (element.type) {
+    case "heading":
+      return element.level === 1 ? (
+        <h2 {...props} style={{ margin: "16px 0 8px" }}>{children}</h2>
+      ) : (
+        <h3 {...props} style={{ margin: "12px 0 6px" }}>{children}</h3>
+      );
+    case "block-quote":
+      return (
+        <blockquote {...props} style={{ margin: "8px 0", paddingLeft: 12, borderLeft: "3px solid #ddd", opacity: 0.85 }}>
+          {children}
+        </blockquote>
+      );
+    case "list-item":
+      return <li {...props}>{children}</li>;
+    default:
+      return <div {...props}>{children}</div>;
   }
 }
 
-async function getSuggestionsForParagraph(
-  editor: Editor,
-  paragraphPath: Path,
-  selection: Range | null,
-  customRules: CustomRule[] = [],
-  settings: Record<string, boolean> = {},
-  apiKey: string = ""
-): Promise<Suggestion[]> {
-  const suggestions: Suggestion[] = [];
-  const paragraphText = Node.string(Node.get(editor, paragraphPath));
-  if (!paragraphText.trim()) return [];
-
-  // 1. Fetch from LanguageTool
-  const disabledLTCategories = [];
-  if (!settings.ltTypos) disabledLTCategories.push("TYPOS");
-  if (!settings.ltGrammar) disabledLTCategories.push("GRAMMAR");
-  if (!settings.ltStyle) disabledLTCategories.push("STYLE");
-  if (!settings.ltPunctuation) disabledLTCategories.push("PUNCTUATION");
-
-  const ltMatches = await getSuggestionsFromLT(paragraphText, "en-US", disabledLTCategories);
-
-  // 2. Local & Custom Rules
-  const localMatches = settings.localFallbacks ? getLocalGrammarSuggestions(paragraphText, customRules) : [];
-
-  // Map Slate nodes to calculate absolute offsets correctly
-  const paragraphTextNodes: Array<{ path: Path; text: string; start: number; end: number }> = [];
-  let currentOffset = 0;
-  for (const [n, p] of Node.texts(editor, { from: paragraphPath })) {
-    const text = (n as Text).text;
-    paragraphTextNodes.push({
-      path: p,
-      text: text,
-      start: currentOffset,
-      end: currentOffset + text.length,
-    });
-    currentOffset += text.length;
-  }
-
-  // Process all matches (API + Local)
-  const allMatches = [...ltMatches, ...localMatches];
-
-  for (const match of allMatches) {
-    const range = getRangeFromOffsets(paragraphTextNodes, match.offset, match.offset + match.length);
-    if (range) {
-      suggestions.push({
-        id: uid(),
-        kind: "grammar",
-        range,
-        replacement: match.replacements[0]?.value || "",
-        reason: match.message,
-      });
-    }
-  }
-
-  // 2. Add POV propagation
-  if (settings.povPropagation) {
-    // Synchronously find the anchor word at the cursor
-    const anchor = getCharacterAnchorAtCursor(paragraphText, selection, paragraphTextNodes);
-
-    if (anchor && apiKey) {
-      // Single unified AI call (with caching)
-      const aiSuggestions = await getAIAlignmentForParagraph(paragraphText, paragraphTextNodes, anchor, apiKey);
-      suggestions.push(...aiSuggestions);
-    } else if (anchor && anchor.inferredPOV) {
-      // Offline/Local fallback logic
-      for (const node of paragraphTextNodes) {
-        suggestions.push(...getPOVPropagationSuggestions(node.text, node.path, anchor.inferredPOV));
-      }
-    }
-  }
+const MARK_BUTTONS: Array<{ format: MarkFormat; label: string; title: string; style: React.CSSProperties }> = [
+  { format: "bold", label: "B", title: "Bold (Ctrl+B)", style: { fontWeight: 700 } },
+  { format: "italic", label: "I", title: "Italic (Ctrl+I)", style: { fontStyle: "italic" } },
+  { format: "underline", label: "U", title: "Underline (Ctrl+U)", style: { textDecoration: "underline" } },
+];
 
-  // Stable sort: earlier offsets first
-  suggestions.sort((a, b) => {
-    const as = Range.start(a.range);
-    const bs = Range.start(b.range);
-    const pathCompare = Path.compare(as.path, bs.path);
-    if (pathCompare !== 0) return pathCompare;
-    return as.offset - bs.offset;
-  });
+const BLOCK_BUTTONS: Array<{ format: BlockFormat; label: string; title: string }> = [
+  { format: "heading-1", label: "Chapter", title: "Chapter heading (Ctrl+Alt+1)" },
+  { format: "heading-2", label: "Scene", title: "Scene heading (Ctrl+Alt+2)" },
+  { format: "block-quote", label: "Quote", title: "Block quote (Ctrl+Shift+9)" },
+  { format: "bulleted-list", label: "• List", title: "Bulleted list (Ctrl+Shift+8)" },
+  { format: "numbered-list", label: "1. List", title: "Numbered list (Ctrl+Shift+7)" },
+];
 
-  // Light de-dupe
-  const seen = new Set<string>();
-  return suggestions.filter((s) => {
-    const start = Range.start(s.range);
-    const end = Range.end(s.range);
-    const key = `${start.path.join(",")}:${start.offset}-${end.offset}:${s.replacement}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
+/**
+ * Marks and block types for the selection. Buttons act on mouse down so the editor keeps
+ * its selection.
+ */
+function Toolbar() {
+  const editor = useSlate();
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    padding: "2px 8px",
+    borderRadius: 6,
+    border: "1px solid #ddd",
+    background: active ? "#e6f4ff" : "#fff",
+    fontSize: 12,
+    cursor: "pointer",
   });
-}
 
-function matchCase(desired: string, original: string) {
-  if (original.toUpperCase() === original) return desired.toUpperCase();
-  if (original[0]?.toUpperCase() === original[0]) return desired[0].toUpperCase() + desired.slice(1);
-  return desired;
+  return (
+    <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginBottom: 10 }}>
+      {MARK_BUTTONS.map(({ format, label, title, style }) => (
+        <button
+          key={format}
+          title={title}
+          style={{ ...buttonStyle(isMarkActive(editor, format)), ...style }}
+          onMouseDown={e => {
+            e.preventDefault();
+            toggleMark(editor, format);
+          }}
+        >
+          {label}
+        </button>
+      ))}
+      <span style={{ width: 8 }} />
+      {BLOCK_BUTTONS.map(({ format, label, title }) => (
+        <button
+          key={format}
+          title={title}
+          style={buttonStyle(isBlockActive(editor, format))}
+          onMouseDown={e => {
+            e.preventDefault();
+            toggleBlock(editor, format);
+          }}
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        title="Scene break (Ctrl+Enter)"
+        style={buttonStyle(false)}
+        onMouseDown={e => {
+          e.preventDefault();
+          insertSceneBreak(editor);
+        }}
+      >
+        * * *
+      </button>
+    </div>
+  );
 }
 
-// -------------------- POV inference + propagation ------------------------
-
-type POV = "he" | "she" | "they";
-
-const PRONOUNS: Record<POV, { re: RegExp; map: Record<string, string> }> = {
-  he: {
-    // include: he, him, his
-    re: /\b(he|him|his)\b/gi,
-    map: {
-      he: "he",
-      him: "him",
-      his: "his",
-    },
-  },
-  she: {
-    // include: she, her, hers
-    re: /\b(she|her|hers)\b/gi,
-    map: {
-      she: "she",
-      her: "her",
-      hers: "hers",
-    },
-  },
-  they: {
-    // include: they, them, their, theirs (singular they)
-    re: /\b(they|them|their|theirs)\b/gi,
-    map: {
-      they: "they",
-      them: "them",
-      their: "their",
-      theirs: "theirs",
-    },
-  },
-};
-
-const POV_MAP: Record<POV, Record<string, string>> = {
-  he: {
-    // -> he
-    she: "he",
-    her: "him",
-    hers: "his",
-    they: "he",
-    them: "him",
-    their: "his",
-    theirs: "his",
-  },
-  she: {
-    // -> she
-    he: "she",
-    him: "her",
-    his: "her",
-    they: "she",
-    them: "her",
-    their: "her",
-    theirs: "hers",
-  },
-  they: {
-    // -> they
-    he: "they",
-    him: "them",
-    his: "their",
-    she: "they",
-    her: "them", // note: ambiguous; demo only
-    hers: "theirs",
-  },
-};
-
 /**
- * Infer the "Target POV" by finding the pronoun OR name nearest to the cursor.
+ * Document default language plus an override for the paragraph under the cursor.
+ * Rendered inside <Slate> so it re-renders as the selection moves.
  */
-/**
- * Find the word the user is currently editing or focusing on.
- */
-function getCharacterAnchorAtCursor(
-  text: string,
-  selection: Range | null,
-  nodes: Array<{ path: Path; start: number; end: number }>
-): { text: string; isName: boolean; inferredPOV?: POV } | null {
-  if (!selection) return null;
-  const cursor = selection.anchor;
-
-  let absolute = 0;
-  for (const node of nodes) {
-    if (Path.equals(node.path, cursor.path)) {
-      absolute += cursor.offset;
-      break;
-    }
-    absolute += (node.end - node.start);
-  }
-
-  // Find full word at absolute offset
-  let start = absolute;
-  while (start > 0 && /\w/.test(text[start - 1])) start--;
-  let end = absolute;
-  while (end < text.length && /\w/.test(text[end])) end++;
-
-  const word = text.slice(start, end);
-  if (!word || word.length < 2) return null;
-
-  const isName = (word[0] === word[0].toUpperCase() && /[A-Z]/.test(word[0]));
-
-  // Heuristic POV for offline fallback
-  let inferredPOV: POV | undefined;
-  const lower = word.toLowerCase();
-  for (const pov of Object.keys(PRONOUNS) as POV[]) {
-    if (PRONOUNS[pov].map[lower]) {
-      inferredPOV = pov;
-      break;
-    }
-  }
-
-  return { text: word, isName, inferredPOV };
-}
-
-// Result Cache: Key is "paragraphTextHash:anchorWord"
-const aiCache = new Map<string, Suggestion[]>();
-
-async function getAIAlignmentForParagraph(
-  text: string,
-  nodes: Array<{ path: Path; text: string; start: number; end: number }>,
-  anchor: { text: string; isName: boolean },
-  apiKey: string
-): Promise<Suggestion[]> {
-  // Simple cache key
-  const cacheKey = `${text.length}:${text.slice(0, 50)}:${anchor.text}`;
-  if (aiCache.has(cacheKey)) return aiCache.get(cacheKey)!;
-
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-    const prompt = `
-      Paragraph: "${text}"
-      The user is focused on the character "${anchor.text}".
-      
-      Tasks:
-      1. Determine if "${anchor.text}" is a character and what their pronouns should be (he, she, or they).
-      2. Identify every OTHER pronoun in this paragraph that refers to THIS character.
-      
-      Return ONLY a JSON object:
-      {
-        "pov": "he" | "she" | "they" | "unknown",
-        "pronouns": [
-          { "offset": number, "length": number, "original": "string", "replacement": "string" }
-        ]
-      }
-    `;
-
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) return [];
-
-    const data = JSON.parse(jsonMatch[0]);
-    if (data.pov === "unknown") return [];
-
-    const suggestions: Suggestion[] = [];
-    for (const match of data.pronouns || []) {
-      const range = getRangeFromOffsets(nodes, match.offset, match.offset + match.length);
-      if (range) {
-        suggestions.push({
-          id: uid(),
-          kind: "pov-pronoun-propagation",
-          range,
-          replacement: matchTokenCase(match.replacement, match.original),
-          reason: `AI detected this refers to character "${anchor.text}" (POV: ${data.pov}).`,
-        });
-      }
-    }
-
-    aiCache.set(cacheKey, suggestions);
-    return suggestions;
-  } catch (e) {
-    console.error("AI alignment failed:", e);
-    return [];
-  }
-}
-
-function matchTokenCase(replacement: string, originalToken: string) {
-  if (originalToken[0] === originalToken[0].toUpperCase()) {
-    return replacement[0].toUpperCase() + replacement.slice(1);
-  }
-  return replacement;
-}
-
-function getPOVPropagationSuggestions(text: string, path: Path, target: POV): Suggestion[] {
-  const suggestions: Suggestion[] = [];
-  const allRe = /\b(he|him|his|she|her|hers|they|them|their|theirs)\b/gi;
-
-  for (const m of text.matchAll(allRe)) {
-    const start = m.index ?? 0;
-    const token = m[0];
-    const lower = token.toLowerCase();
-
-    if (PRONOUNS[target].map[lower]) continue;
-
-    const mapped = POV_MAP[target][lower];
-    if (!mapped) continue;
-
-    suggestions.push({
-      id: uid(),
-      kind: "pov-pronoun-propagation",
-      range: {
-        anchor: { path, offset: start },
-        focus: { path, offset: start + token.length },
-      },
-      replacement: matchTokenCase(mapped, token),
-      reason: `Align pronouns to ${target} POV (demo heuristic).`,
-    });
-  }
-
-  return suggestions;
-}
-
-function getRangeFromOffsets(
-  nodes: Array<{ path: Path; start: number; end: number }>,
-  start: number,
-  end: number
-): Range | null {
-  let anchor: Point | null = null;
-  let focus: Point | null = null;
-
-  for (const node of nodes) {
-    if (start >= node.start && start < node.end) {
-      anchor = { path: node.path, offset: start - node.start };
-    }
-    if (end > node.start && end <= node.end) {
-      focus = { path: node.path, offset: end - node.start };
-    }
-  }
+function LanguageBar({
+  documentLanguage,
+  onDocumentLanguageChange
+}: {
+  documentLanguage: string;
+  onDocumentLanguageChange: (next: string) => void
+}) {
+  const editor = useSlate();
+  const paragraphEntry = editor.selection
+    ? Editor.above(editor, { at: editor.selection, match: (n) => isParagraph(n) })
+    : undefined;
+  const paragraphLang = paragraphEntry ? (paragraphEntry[0] as TextBlockElement).lang ?? "" : "";
+  const detected = paragraphEntry && documentLanguage === AUTO_LANGUAGE && !paragraphLang
+    ? detectLanguage(acceptedText(paragraphEntry[0]))
+    : null;
+
+  const selectStyle: React.CSSProperties = { padding: "2px 6px", borderRadius: 6, border: "1px solid #ddd", fontSize: 12 };
+  const options = SUPPORTED_LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>);
 
-  if (anchor && focus) return { anchor, focus };
-  return null;
+  return (
+    <div style={{ display: "flex", gap: 16, alignItems: "center", fontSize: 12, marginBottom: 10, opacity: 0.85 }}>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        Document language
+        <select value={documentLanguage} onChange={e => onDocumentLanguageChange(e.target.value)} style={selectStyle}>
+          <option value={AUTO_LANGUAGE}>Detect per paragraph</option>
+          {options}
+        </select>
+      </label>
+      <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        This paragraph
+        <select
+          value={paragraphLang}
+          disabled={!paragraphEntry}
+          onChange={e => {
+            if (!paragraphEntry) return;
+            const lang = e.target.value || undefined;
+            Transforms.setNodes(editor, { lang }, { at: paragraphEntry[1] });
+          }}
+          style={selectStyle}
+        >
+          <option value="">Document default</option>
+          {options}
+        </select>
+      </label>
+      {detected && <span style={{ opacity: 0.6 }}>Detected: {detected}</span>}
+    </div>
+  );
 }
 
 // ------------------- Slate leaf rendering (decorations) ------------------
 
-type DecoratedText = Text & {
-  suggestionId?: string;
-  suggestionKind?: SuggestionKind;
-};
-
-function Leaf({ attributes, children, leaf }: RenderLeafProps) {
+type DecoratedText = Text & SuggestionDecoration;
+
+function Leaf({
+  attributes,
+  children,
+  leaf,
+  onOpenCard,
+  onLeaveCard
+}: RenderLeafProps & {
+  onOpenCard: (suggestionId: string) => void;
+  onLeaveCard: () => void
+}) {
   const l = leaf as DecoratedText;
+  if (l.bold) children = <strong>{children}</strong>;
+  if (l.italic) children = <em>{children}</em>;
+  if (l.underline) children = <u>{children}</u>;
+  if (l.insertion) {
+    children = <ins title={describeRevision("Inserted", l.insertion)} style={{ color: "#237804" }}>{children}</ins>;
+  }
+  if (l.deletion) {
+    children = <del title={describeRevision("Deleted", l.deletion)} style={{ color: "#a8071a" }}>{children}</del>;
+  }
 
   if (l.suggestionId) {
     const kind = l.suggestionKind;
     const isPOV = kind === "pov-pronoun-propagation";
+    const isNarrative = kind === "narrative-consistency";
 
     const style: React.CSSProperties = {
       textDecoration: "underline",
-      textDecorationStyle: isPOV ? "dashed" : "wavy",
-      textDecorationColor: isPOV ? "#13c2c2" : "#ff4d4f",
+      textDecorationStyle: isPOV ? "dashed" : isNarrative ? "dotted" : "wavy",
+      textDecorationColor: isPOV ? "#13c2c2" : isNarrative ? "#722ed1" : "#ff4d4f",
       cursor: "pointer",
     };
 
     return (
-      <span {...attributes} style={style} data-suggestion-kind={kind} title={`Suggestion: ${kind}`}>
+      <span
+        {...attributes}
+        style={style}
+        data-suggestion-kind={kind}
+        onMouseEnter={() => onOpenCard(l.suggestionId!)}
+        onMouseLeave={onLeaveCard}
+        onClick={() => onOpenCard(l.suggestionId!)}
+      >
         {children}
       </span>
     );
@@ -517,64 +365,227 @@ function Leaf({ attributes, children, leaf }: RenderLeafProps) {
   return <span {...attributes}>{children}</span>;
 }
 
+// ------------------------- Applying suggestions ---------------------------
+
+type Edit = { range: Range; original: string; text: string; reason: string };
+
+// Replace several ranges in one pass, back to front so earlier ranges stay valid. With track
+// changes on, each edit is a revision of its own (unless one is already open). Returns the
+// edits as applied, in the order given, for the session log.
+function insertBackToFront(editor: Editor, edits: Edit[]): AppliedEdit[] {
+  const order = edits.map((_, i) => i).sort((a, b) => {
+    const as = Range.start(edits[a].range);
+    const bs = Range.start(edits[b].range);
+    const pathCompare = Path.compare(as.path, bs.path);
+    if (pathCompare !== 0) return -pathCompare;
+    return bs.offset - as.offset;
+  });
+  const applied: AppliedEdit[] = [];
+  for (const i of order) {
+    const edit = edits[i];
+    let replaced = edit.range;
+    const revisionId = withRevision(editor, edit.reason, () => {
+      replaced = replaceText(editor, edit.range, edit.text);
+    });
+    applied[i] = {
+      ref: Editor.rangeRef(editor, replaced, { affinity: "inward" }),
+      original: edit.original,
+      replacement: edit.text,
+      revisionId,
+    };
+  }
+  return applied;
+}
+
 // ------------------------------ App --------------------------------------
 
 export default function App() {
-  const editor = useMemo(() => withHistory(withReact(createEditor() as ReactEditor)), []);
-  const [value, setValue] = useState<Descendant[]>(initialValue);
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const editor = useMemo(
+    () => withParagraphIds(
+      withPaste(withTrackChanges(withRichText(withUndoSteps(withHistory(withReact(createEditor() as ReactEditor))))))
+    ),
+    []
+  );
+  // Restored once; later changes are saved back by `persistState`.
+  const [saved] = useState(() => loadState(defaultState));
+  const [value, setValue] = useState<Descendant[]>(saved.document);
+  // Document-wide suggestions, keyed by paragraph id. The ref mirrors state for async loops.
+  const [store, setStore] = useState<SuggestionStore>(() => new Map());
+  const storeRef = useRef<SuggestionStore>(store);
   const [povSuggestions, setPovSuggestions] = useState<Suggestion[]>([]);
+  // Suggestion card: which suggestion it shows, and the replacement picked per suggestion.
+  const [cardSuggestionId, setCardSuggestionId] = useState<string | null>(null);
+  const [replacementChoice, setReplacementChoice] = useState<Record<string, number>>({});
+  const cardCloseTimerRef = useRef<number | null>(null);
+  // Personal dictionary + ignore lists (localStorage). The ref lets checks read the latest
+  // lists without every "Ignore" click invalidating the whole store.
+  const [ignoreLists, setIgnoreLists] = useState<IgnoreLists>(() => loadIgnoreLists(DOCUMENT_ID));
+  const ignoreListsRef = useRef<IgnoreLists>(ignoreLists);
   const [loading, setLoading] = useState(false);
-  const [customRules, setCustomRules] = useState<CustomRule[]>([]);
+  // Providers that failed during the last check (one entry per provider), shown by the indicator.
+  const [checkFailures, setCheckFailures] = useState<ProviderFailure[]>([]);
+  const [customRules, setCustomRules] = useState<CustomRule[]>(saved.customRules);
+  const [characters, setCharacters] = useState<Character[]>(saved.characters);
+  // A character whose pronouns changed, and what they were before: offers a document-wide pass.
+  const [pronounChange, setPronounChange] = useState<{ characterId: string; previous: PronounSet } | null>(null);
   const [ruleIntent, setRuleIntent] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [apiKey, setApiKey] = useState(import.meta.env.VITE_GEMINI_API_KEY || "");
-  const [ruleSettings, setRuleSettings] = useState({
-    ltTypos: true,
-    ltGrammar: true,
-    ltStyle: true,
-    ltPunctuation: true,
-    povPropagation: true,
-    localFallbacks: true,
+  // Rule open in the editor: a new draft from "Add" or a copy of an existing rule.
+  const [editingRule, setEditingRule] = useState<CustomRule | null>(null);
+  // The Gemini key is only written to storage when "Remember" is ticked.
+  const [rememberApiKey, setRememberApiKey] = useState(() => loadGeminiKey() !== null);
+  const [apiKey, setApiKey] = useState(() => loadGeminiKey() ?? (import.meta.env.VITE_GEMINI_API_KEY || ""));
+  const [ruleSettings, setRuleSettings] = useState<RuleSettings>(saved.ruleSettings);
+  const [ltConfig, setLtConfig] = useState<LanguageToolConfig>({
+    ...saved.languageTool,
+    apiKey: DEFAULT_LT_CONFIG.apiKey,
   });
+  const [documentLanguage, setDocumentLanguage] = useState<string>(saved.documentLanguage);
+  const [trackChanges, setTrackChanges] = useState<TrackChangesSettings>(saved.trackChanges);
+  // Suggestions applied and skipped this session, newest first, with what "Revert" needs.
+  const [sessionLog, setSessionLog] = useState<SessionLogEntry[]>([]);
+  const appliedEditsRef = useRef(new Map<string, AppliedEdit[]>());
+  // The story's person and tense: as declared, else inferred from the whole document's narration.
+  const [declaredNarrative, setDeclaredNarrative] = useState<NarrativeStyle>(saved.narrative);
+  const inferredNarrative = useMemo(() => inferNarrative(
+        textBlocks(value)
+          .filter((b) => b.type !== "heading")
+          .map((b) => acceptedText(b))
+      ), [value]);
+  const narrative = useMemo<NarrativeStyle>(() => ({
+    person: declaredNarrative.person ?? inferredNarrative.person,
+    tense: declaredNarrative.tense ?? inferredNarrative.tense,
+    narratorId: declaredNarrative.narratorId,
+  }), [declaredNarrative, inferredNarrative.person, inferredNarrative.tense]);
 
   // Keep a tiny debounce so it doesn't recompute on every single keystroke.
   const debounceRef = useRef<number | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+  // Each recompute bumps the version and aborts the previous one's in-flight requests.
+  const checkVersionRef = useRef(0);
+  const checkAbortRef = useRef<AbortController | null>(null);
+
+  const updateStore = useCallback((next: SuggestionStore) => {
+    storeRef.current = next;
+    setStore(next);
+  }, []);
+
+  const persistState = useCallback(() => {
+    saveState({
+      document: editor.children,
+      customRules,
+      characters,
+      narrative: declaredNarrative,
+      ruleSettings,
+      languageTool: ltConfig,
+      documentLanguage,
+      trackChanges,
+    });
+  }, [editor, customRules, characters, declaredNarrative, ruleSettings, ltConfig, documentLanguage, trackChanges]);
+
+  useEffect(() => {
+    setTracking(editor, trackChanges.enabled ? { author: trackChanges.author.trim() || "Author" } : null);
+  }, [editor, trackChanges]);
+
+  // Settings changed: save right away. Document edits are saved from onChange (debounced).
+  useEffect(() => {
+    persistState();
+  }, [persistState]);
+
+  useEffect(() => {
+    saveGeminiKey(rememberApiKey && apiKey ? apiKey : null);
+  }, [apiKey, rememberApiKey]);
+
+  const updateIgnoreLists = useCallback((next: IgnoreLists) => {
+    ignoreListsRef.current = next;
+    setIgnoreLists(next);
+    saveIgnoreLists(DOCUMENT_ID, next);
+  }, []);
 
   const recomputeSuggestions = useCallback(async () => {
-    const { selection } = editor;
-    if (!selection) {
-      setSuggestions([]);
-      setPovSuggestions([]);
-      return;
-    }
+    const documentProviders = providerRegistry.list().filter((p) => p.scope !== "cursor");
+    const cursorProviders = providerRegistry.list().filter((p) => p.scope === "cursor");
+
+    checkAbortRef.current?.abort();
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
+    const version = ++checkVersionRef.current;
+    const isLatest = () => version === checkVersionRef.current;
+    const checkOptions = {
+      customRules,
+      characters,
+      narrative,
+      settings: ruleSettings,
+      apiKey,
+      languageTool: ltConfig,
+      documentLanguage,
+      ignoreLists: ignoreListsRef.current,
+    };
 
-    const paragraphEntry = Editor.above(editor, {
-      at: selection,
-      match: (n) => isParagraph(n),
-    });
+    updateStore(pruneStore(editor, storeRef.current));
 
-    if (!paragraphEntry) {
-      setSuggestions([]);
-      setPovSuggestions([]);
-      return;
-    }
+    const failures = new Map<string, ProviderFailure>();
+    const noteFailures = (found: ProviderFailure[]) => {
+      for (const failure of found) if (!failures.has(failure.providerId)) failures.set(failure.providerId, failure);
+    };
 
     setLoading(true);
     try {
-      const [, paragraphPath] = paragraphEntry;
-      const all = await getSuggestionsForParagraph(editor, paragraphPath, selection, customRules, ruleSettings, apiKey);
+      // 1. Re-check only the paragraphs whose text changed, one at a time (LT rate limits).
+      for (const { id } of getStaleParagraphs(editor, storeRef.current)) {
+        // Paths can shift while earlier paragraphs are being checked, so look it up again.
+        const paragraph = findParagraphById(editor, id);
+        if (!paragraph || isCheckCurrent(storeRef.current.get(id), paragraph)) continue;
+
+        const found = await getSuggestionsForParagraph(editor, paragraph.path, null, {
+          ...checkOptions,
+          signal: controller.signal,
+          providers: documentProviders,
+        });
+        if (!isLatest()) return;
+        noteFailures(found.failures);
+
+        // Ranges are only valid against the text they were computed from.
+        const current = findParagraphById(editor, id);
+        if (!current || current.text !== paragraph.text || current.lang !== paragraph.lang) continue;
+        updateStore(new Map(storeRef.current).set(id, {
+          text: paragraph.text,
+          lang: paragraph.lang,
+          suggestions: rebaseSuggestions(found.suggestions, paragraph.path, current.path),
+          failed: found.failures.length > 0,
+        }));
+      }
 
-      // Gate POV suggestions: Separate from immediate underlines
-      const immediate = all.filter(s => s.kind !== "pov-pronoun-propagation");
-      const gated = all.filter(s => s.kind === "pov-pronoun-propagation");
+      // 2. Cursor-scoped providers (POV) only look at the paragraph under the selection.
+      //    Gate POV suggestions: Separate from immediate underlines
+      const { selection } = editor;
+      const paragraphEntry = selection && Editor.above(editor, { at: selection, match: (n) => isParagraph(n) });
+      if (!paragraphEntry) {
+        setPovSuggestions([]);
+        return;
+      }
+      const [paragraphNode, paragraphPath] = paragraphEntry;
+      const paragraphText = acceptedText(paragraphNode);
+      const found = await getSuggestionsForParagraph(editor, paragraphPath, selection, {
+        ...checkOptions,
+        signal: controller.signal,
+        providers: cursorProviders,
+      });
+      if (!isLatest()) return;
+      noteFailures(found.failures);
 
-      setSuggestions(immediate);
-      setPovSuggestions(gated);
+      const current = paragraphNode.id ? findParagraphById(editor, paragraphNode.id) : null;
+      setPovSuggestions(
+        current && current.text === paragraphText ? rebaseSuggestions(found.suggestions, paragraphPath, current.path) : []
+      );
     } finally {
-      setLoading(false);
+      // Only the latest request owns the indicator; superseded ones finish silently.
+      if (isLatest()) {
+        setLoading(false);
+        setCheckFailures([...failures.values()]);
+      }
     }
-  }, [editor, customRules, ruleSettings, apiKey]);
+  }, [editor, customRules, characters, narrative, ruleSettings, apiKey, ltConfig, documentLanguage, updateStore]);
 
   const scheduleRecompute = useCallback(() => {
     if (debounceRef.current) window.clearTimeout(debounceRef.current);
@@ -583,6 +594,87 @@ export default function App() {
     }, 1000); // 1s Debounce to respect Gemini API limits
   }, [recomputeSuggestions]);
 
+  // Rules, toggles, the LT server, the document language or the story's person/tense changed:
+  // every cached paragraph result is outdated. (The inferred person/tense only changes when
+  // the majority of the narration flips.)
+  useEffect(() => {
+    updateStore(new Map());
+    scheduleRecompute();
+  }, [customRules, ruleSettings, ltConfig, documentLanguage, narrative]);
+
+  // Only the cursor-scoped POV check looks at characters; cached paragraph results stay valid.
+  useEffect(() => {
+    scheduleRecompute();
+  }, [characters]);
+
+  // Custom rules that time out (or can't run) in the rule worker are switched off, with the reason shown on the rule.
+  useEffect(() => {
+    return customRuleRunner.onFailure((failures) => {
+      setCustomRules((prev) => {
+        if (!prev.some((rule) => failures.some((f) => f.ruleId === rule.id))) return prev;
+        return prev.map((rule) => {
+          const failure = failures.find((f) => f.ruleId === rule.id);
+          return failure ? { ...rule, disabled: true, warning: failure.reason } : rule;
+        });
+      });
+    });
+  }, []);
+
+  const suggestions = useMemo(() => resolveSuggestions(store), [store]);
+
+  const updateCharacters = useCallback((next: Character[]) => {
+    const changed = next.find((c) => {
+      const before = characters.find((p) => p.id === c.id);
+      return before && !samePronouns(before.pronouns, c.pronouns);
+    });
+    if (changed) {
+      // Keep the original pronouns while the forms are edited one keystroke at a time.
+      const previous = characters.find((p) => p.id === changed.id)!.pronouns;
+      setPronounChange((pending) =>
+        pending?.characterId === changed.id ? pending : { characterId: changed.id, previous }
+      );
+    }
+    setCharacters(next);
+  }, [characters]);
+
+  // Pronouns across the whole document still written with the changed character's old set.
+  // Found once per registry change, then carried through edits like other pending suggestions.
+  const changedCharacter = pronounChange ? characters.find((c) => c.id === pronounChange.characterId) ?? null : null;
+  const [documentAlignment, setDocumentAlignment] = useState<Suggestion[]>([]);
+  useEffect(() => {
+    const character = changedCharacter;
+    if (!pronounChange || !character || samePronouns(character.pronouns, pronounChange.previous)) {
+      setDocumentAlignment([]);
+      return;
+    }
+    const found: Suggestion[] = [];
+    // Who was mentioned last carries over into the next paragraph.
+    let context: CorefContext | undefined;
+    for (const [node, path] of Editor.nodes(editor, { at: [], match: (n) => isParagraph(n) })) {
+      const text = acceptedText(node);
+      const result = getCharacterAlignmentMatches(text, character, characters, {
+        context,
+        writtenPronouns: (c) => (c.id === character.id ? pronounChange.previous : c.pronouns),
+      });
+      context = result.context;
+      found.push(...toSuggestions(result.matches, text, getParagraphTextNodes(editor, path)));
+    }
+    setDocumentAlignment(found);
+  }, [editor, characters, changedCharacter, pronounChange]);
+  const documentPronouns = documentAlignment.filter((s) => s.ruleId !== "POV_VERB_AGREEMENT").length;
+  const paragraphTexts = useMemo(() => textBlocks(value).map((b) => acceptedText(b)), [value]);
+  const revisions = useMemo(() => listRevisions(value), [value]);
+
+  // Carry pending suggestions through every edit so their ranges never go stale while the
+  // debounced re-check is outstanding; suggestions whose own text was edited drop out.
+  const rebasePendingSuggestions = useCallback(() => {
+    const ops = editor.operations;
+    if (ops.every((op) => op.type === "set_selection")) return;
+    updateStore(transformStore(storeRef.current, ops));
+    setPovSuggestions((prev) => transformSuggestions(prev, ops));
+    setDocumentAlignment((prev) => (prev.length > 0 ? transformSuggestions(prev, ops) : prev));
+  }, [editor, updateStore]);
+
   const decorate = useCallback(
     ([node, path]: [any, Path]) => {
       const ranges: Range[] = [];
@@ -601,7 +693,7 @@ export default function App() {
             ...intersection,
             suggestionId: s.id,
             suggestionKind: s.kind,
-          } as any);
+          });
         }
       }
       return ranges;
@@ -609,35 +701,143 @@ export default function App() {
     [editor, suggestions, povSuggestions]
   );
 
-  const applySuggestion = useCallback(
-    (s: Suggestion) => {
-      Editor.withoutNormalizing(editor, () => {
-        Transforms.select(editor, s.range);
-        Transforms.insertText(editor, s.replacement, { at: s.range });
-      });
-      recomputeSuggestions();
+  const getChosenReplacement = useCallback(
+    (s: Suggestion) => s.replacements[replacementChoice[s.id] ?? 0] ?? "",
+    [replacementChoice]
+  );
+
+  const logSuggestion = useCallback(
+    (status: "applied" | "skipped", kind: SuggestionKind, reason: string, changes: SessionLogEntry["changes"]) => {
+      const entry: SessionLogEntry = { id: uid(), status, kind, reason, time: Date.now(), changes };
+      setSessionLog((prev) => [entry, ...prev]);
+      return entry.id;
     },
-    [editor, recomputeSuggestions]
+    []
   );
 
-  const applyAllPOVSuggestions = useCallback(() => {
-    if (povSuggestions.length === 0) return;
+  // Apply edits as one undo step and log them as one entry.
+  const applyEdits = useCallback(
+    (kind: SuggestionKind, reason: string, edits: Edit[], after?: (applied: AppliedEdit[]) => void) => {
+      let applied: AppliedEdit[] = [];
+      asOneUndoStep(editor, () => {
+        Editor.withoutNormalizing(editor, () => {
+          applied = insertBackToFront(editor, edits);
+          after?.(applied);
+        });
+      });
+      const id = logSuggestion("applied", kind, reason, edits.map((e) => ({ original: e.original, replacement: e.text })));
+      appliedEditsRef.current.set(id, applied);
+    },
+    [editor, logSuggestion]
+  );
 
-    Editor.withoutNormalizing(editor, () => {
-      const sorted = [...povSuggestions].sort((a, b) => {
-        const as = Range.start(a.range);
-        const bs = Range.start(b.range);
-        const pathCompare = Path.compare(as.path, bs.path);
-        if (pathCompare !== 0) return -pathCompare;
-        return bs.offset - as.offset;
+  const applySuggestion = useCallback(
+    (s: Suggestion, replacement = getChosenReplacement(s)) => {
+      // The rest of its group (e.g. verbs agreeing with a changed pronoun) goes in with it.
+      const grouped = s.group
+        ? [...suggestions, ...povSuggestions].filter((other) => other.group === s.group && other.id !== s.id)
+        : [];
+      const edits = [s, ...grouped].map((other) => ({
+        range: other.range,
+        original: other.original,
+        text: other === s ? replacement : getChosenReplacement(other),
+        reason: s.reason,
+      }));
+      // Tracked, the whole group is one revision.
+      withRevision(editor, s.reason, () => {
+        applyEdits(s.kind, s.reason, edits, ([main]) => {
+          if (main.ref.current) Transforms.select(editor, Range.end(main.ref.current));
+        });
       });
+      setCardSuggestionId(null);
+      // Remaining suggestions are rebased in onChange; the debounced re-check picks up new ones.
+    },
+    [editor, applyEdits, getChosenReplacement, suggestions, povSuggestions]
+  );
 
-      for (const s of sorted) {
-        Transforms.insertText(editor, s.replacement, { at: s.range });
-      }
-    });
-    recomputeSuggestions();
-  }, [editor, povSuggestions, recomputeSuggestions]);
+  const revertLogEntry = useCallback((entryId: string) => {
+    const edits = appliedEditsRef.current.get(entryId);
+    if (!edits) return;
+    const reverted = revertEdits(editor, edits);
+    if (reverted) appliedEditsRef.current.delete(entryId);
+    setSessionLog((prev) => prev.map((entry) => {
+      if (entry.id !== entryId) return entry;
+      return reverted
+        ? { ...entry, status: "reverted", revertError: undefined }
+        : { ...entry, revertError: "The text has changed since; edit it by hand or undo instead." };
+    }));
+  }, [editor]);
+
+  const clearSessionLog = useCallback(() => {
+    for (const edits of appliedEditsRef.current.values()) edits.forEach((edit) => edit.ref.unref());
+    appliedEditsRef.current.clear();
+    setSessionLog([]);
+  }, []);
+
+  // Drop suggestions from the store and the POV list without re-checking anything.
+  const removeSuggestions = useCallback((predicate: (s: Suggestion) => boolean) => {
+    const next: SuggestionStore = new Map();
+    for (const [id, check] of storeRef.current) {
+      next.set(id, { ...check, suggestions: check.suggestions.filter((s) => !predicate(s)) });
+    }
+    updateStore(next);
+    setPovSuggestions((prev) => prev.filter((s) => !predicate(s)));
+    setCardSuggestionId(null);
+  }, [updateStore]);
+
+  const ignoreSuggestion = useCallback((s: Suggestion) => {
+    logSuggestion("skipped", s.kind, s.reason, [{ original: s.original, replacement: getChosenReplacement(s) }]);
+    const occurrence = getSuggestionOccurrence(editor, s);
+    if (occurrence) updateIgnoreLists(addOccurrence(ignoreListsRef.current, occurrence));
+    removeSuggestions((other) => other.id === s.id || (!!s.group && other.group === s.group));
+  }, [editor, logSuggestion, getChosenReplacement, updateIgnoreLists, removeSuggestions]);
+
+  const ignoreRule = useCallback((ruleId: string) => {
+    const lists = ignoreListsRef.current;
+    if (!lists.disabledRules.includes(ruleId)) {
+      updateIgnoreLists({ ...lists, disabledRules: [...lists.disabledRules, ruleId] });
+    }
+    removeSuggestions((s) => s.ruleId === ruleId);
+  }, [updateIgnoreLists, removeSuggestions]);
+
+  const addToDictionary = useCallback((word: string) => {
+    const lower = word.toLowerCase();
+    const lists = ignoreListsRef.current;
+    if (!lists.dictionary.some((w) => w.toLowerCase() === lower)) {
+      updateIgnoreLists({ ...lists, dictionary: [...lists.dictionary, word] });
+      addWordToLTDictionary(word, ltConfig).catch((e) => console.error("LanguageTool dictionary sync failed:", e));
+    }
+    removeSuggestions((s) => !!s.spelling && s.original.trim().toLowerCase() === lower);
+  }, [ltConfig, updateIgnoreLists, removeSuggestions]);
+
+  // Edited from the panel (removals, imports): re-check so un-ignored matches come back.
+  const replaceIgnoreLists = useCallback((next: IgnoreLists) => {
+    updateIgnoreLists(next);
+    updateStore(new Map());
+    scheduleRecompute();
+  }, [updateIgnoreLists, updateStore, scheduleRecompute]);
+
+  const openCard = useCallback((suggestionId: string) => {
+    if (cardCloseTimerRef.current) window.clearTimeout(cardCloseTimerRef.current);
+    setCardSuggestionId(suggestionId);
+  }, []);
+
+  // Small delay so the pointer can travel from the underline into the card.
+  const scheduleCloseCard = useCallback(() => {
+    if (cardCloseTimerRef.current) window.clearTimeout(cardCloseTimerRef.current);
+    cardCloseTimerRef.current = window.setTimeout(() => setCardSuggestionId(null), 250);
+  }, []);
+
+  // Apply several suggestions as one edit: one undo step and one log entry, under `label`.
+  const applySuggestionsTogether = useCallback((list: Suggestion[], label: string) => {
+    if (list.length === 0) return;
+
+    applyEdits(
+      list[0].kind,
+      label,
+      list.map((s) => ({ range: s.range, original: s.original, text: getChosenReplacement(s), reason: s.reason }))
+    );
+  }, [applyEdits, getChosenReplacement]);
 
   const getSuggestionAtCursor = useCallback((): Suggestion | null => {
     const { selection } = editor;
@@ -657,6 +857,8 @@ export default function App() {
 
   const onKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
+      if (handleRichTextHotkey(editor, e)) return;
+
       // Apply suggestion with Tab (only when we have one near the cursor).
       if (e.key === "Tab" && !e.shiftKey) {
         const s = getSuggestionAtCursor();
@@ -667,6 +869,25 @@ export default function App() {
         }
       }
 
+      // Alt+↑/↓ = cycle through alternative replacements (shown in the card).
+      if (e.altKey && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+        const s = getSuggestionAtCursor();
+        if (s && s.replacements.length > 1) {
+          e.preventDefault();
+          const count = Math.min(s.replacements.length, MAX_CHOICES);
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setReplacementChoice((prev) => ({ ...prev, [s.id]: ((prev[s.id] ?? 0) + step + count) % count }));
+          openCard(s.id);
+          return;
+        }
+      }
+
+      if (e.key === "Escape" && cardSuggestionId) {
+        e.preventDefault();
+        setCardSuggestionId(null);
+        return;
+      }
+
       // Shift+Tab = skip: move caret to end of the nearest suggestion.
       if (e.key === "Tab" && e.shiftKey) {
         const s = getSuggestionAtCursor();
@@ -674,11 +895,12 @@ export default function App() {
           e.preventDefault();
           const end = Range.end(s.range);
           Transforms.select(editor, { anchor: end, focus: end });
+          logSuggestion("skipped", s.kind, s.reason, [{ original: s.original, replacement: getChosenReplacement(s) }]);
           return;
         }
       }
     },
-    [applySuggestion, editor, getSuggestionAtCursor]
+    [applySuggestion, editor, getSuggestionAtCursor, getChosenReplacement, logSuggestion, openCard, cardSuggestionId]
   );
 
   const handleAddRule = async () => {
@@ -701,13 +923,20 @@ export default function App() {
           {
             "pattern": "A JavaScript-ready Regex string (as a string literal, handle escapes carefully) that matches the error",
             "message": "The human readable explanation of the error",
-            "replacement": "The suggested replacement word (optional)",
+            "tokens": "Optional: the <token> elements of a LanguageTool <pattern>, when the error depends on parts of speech or word forms",
+            "replacements": ["Suggested replacements, best first (optional). Use $1 or $<name> to reuse captured groups; an empty string deletes the match"],
             "xml": "The LanguageTool XML <rule> format for this pattern"
           }
 
           Rules for Regex:
           - Use \\\\b for word boundaries (double escape for JSON string).
           - The regex should match the ERROR, not the correction.
+
+          Rules for Tokens (only when a regex can't express the rule, e.g. "adverb before said", passive voice):
+          - One <token> per word. Attributes: postag (Penn tags: NN, NNS, NNP, VB, VBD, VBG, VBN, VBP, VBZ, JJ, RB, IN, DT, PRP, MD, ...),
+            postag_regexp="yes", inflected="yes" (match the lemma, e.g. "say" matches "said"), regexp="yes", negate="yes", skip="N".
+          - Wrap the tokens to flag in <marker>. In replacements, $1 is the text of the first token.
+          - Example: <token postag="RB"/><marker><token inflected="yes">say</token></marker>
           
           Rules for XML:
           - Use <rule>, <pattern>, <token>, <message>, <suggestion> tags.
@@ -719,20 +948,30 @@ export default function App() {
         const cleaned = text.replace(/```json|```/g, "").trim();
         const parsed = JSON.parse(cleaned);
 
+        let tokens: CustomRule["tokens"];
+        if (typeof parsed.tokens === "string" && parsed.tokens.trim()) {
+          try {
+            tokens = parseTokenPatternXml(parsed.tokens);
+          } catch (e) {
+            console.error("Discarding invalid token pattern, using the regex:", e);
+          }
+        }
+
         newRule = {
           id: uid(),
           intent: ruleIntent,
-          pattern: parsed.pattern,
+          pattern: parsed.pattern ?? "",
+          tokens,
           message: parsed.message,
-          replacement: parsed.replacement || "",
-          xml: parsed.xml
+          replacements: Array.isArray(parsed.replacements) ? parsed.replacements.map(String) : [],
+          xml: validateRuleXml(parsed.xml),
         };
       } else {
         // Fallback to simple regex if no API key
         await new Promise((r) => setTimeout(r, 600));
         let generatedPattern = "";
         let message = "";
-        let replacement = "";
+        let replacements: string[] = [];
 
         const lower = ruleIntent.toLowerCase();
         if (lower.includes("avoid") || lower.includes("never use") || lower.includes("ban")) {
@@ -740,12 +979,13 @@ export default function App() {
           const word = match ? match[2] || match[1] : "word";
           generatedPattern = `\\b${word}\\b`;
           message = `Style Guide: Avoid using the word "${word}".`;
+          replacements = [""]; // offer to delete it
         } else if (lower.includes("replace") || lower.includes("instead of")) {
           const words = ruleIntent.match(/replace\s+(\w+)\s+with\s+(\w+)/i);
           if (words) {
             generatedPattern = `\\b${words[1]}\\b`;
             message = `Style Guide: Use "${words[2]}" instead of "${words[1]}".`;
-            replacement = words[2];
+            replacements = [words[2]];
           } else {
             generatedPattern = `\\bword\\b`;
             message = "Custom style rule triggered.";
@@ -760,27 +1000,52 @@ export default function App() {
           intent: ruleIntent,
           pattern: generatedPattern,
           message,
-          replacement,
+          replacements,
         };
       }
 
-      setCustomRules((prev) => [...prev, newRule]);
+      // Reviewed (and previewed) in the editor before it goes live.
+      setEditingRule(newRule);
       setRuleIntent("");
     } catch (error) {
       console.error("Failed to generate rule:", error);
       alert("Error generating rule. Please check your API key or intent.");
     } finally {
       setIsGenerating(false);
-      recomputeSuggestions();
     }
   };
 
   const removeRule = (id: string) => {
     setCustomRules(prev => prev.filter(r => r.id !== id));
-    recomputeSuggestions();
   };
 
-  const renderLeaf = useCallback((props: RenderLeafProps) => <Leaf {...props} />, []);
+  const saveRule = (rule: CustomRule) => {
+    // Saving from the editor means the pattern passed validation and its preview run.
+    const saved = { ...rule, disabled: undefined, warning: undefined };
+    setCustomRules(prev =>
+      prev.some(r => r.id === rule.id) ? prev.map(r => (r.id === rule.id ? saved : r)) : [...prev, saved]
+    );
+    setEditingRule(null);
+  };
+
+  const renderLeaf = useCallback(
+    (props: RenderLeafProps) => <Leaf {...props} onOpenCard={openCard} onLeaveCard={scheduleCloseCard} />,
+    [openCard, scheduleCloseCard]
+  );
+
+  const cardSuggestion = cardSuggestionId
+    ? [...suggestions, ...povSuggestions].find((s) => s.id === cardSuggestionId) ?? null
+    : null;
+  let cardPosition: { top: number; left: number } | null = null;
+  if (cardSuggestion) {
+    try {
+      const rect = ReactEditor.toDOMRange(editor, cardSuggestion.range).getBoundingClientRect();
+      cardPosition = { top: rect.bottom + 6, left: rect.left };
+    } catch {
+      // The range isn't rendered (yet); skip the card for this render.
+    }
+  }
+  const renderElement = useCallback((props: RenderElementProps) => <Element {...props} />, []);
 
   return (
     <div style={{ maxWidth: 980, margin: "40px auto", padding: 16, fontFamily: "system-ui" }}>
@@ -793,8 +1058,15 @@ export default function App() {
       <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
         <Slate
           editor={editor}
-          initialValue={initialValue}
+          initialValue={saved.document}
           onChange={(next) => {
+            rebasePendingSuggestions();
+
+            if (editor.operations.some((op) => op.type !== "set_selection")) {
+              if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+              saveTimerRef.current = window.setTimeout(persistState, 500);
+            }
+
             // Debounce the state update for the debug view to avoid lag
             if (debounceRef.current) window.clearTimeout(debounceRef.current);
             debounceRef.current = window.setTimeout(async () => {
@@ -803,8 +1075,11 @@ export default function App() {
             }, 400);
           }}
         >
+          <Toolbar />
+          <LanguageBar documentLanguage={documentLanguage} onDocumentLanguageChange={setDocumentLanguage} />
           <Editable
             decorate={decorate}
+            renderElement={renderElement}
             renderLeaf={renderLeaf}
             onKeyDown={onKeyDown}
             onSelect={scheduleRecompute}
@@ -812,7 +1087,32 @@ export default function App() {
             style={{ minHeight: 170, outline: "none", lineHeight: 1.55, fontSize: 16 }}
           />
         </Slate>
+        {cardSuggestion && cardPosition && (
+          <SuggestionCard
+            suggestion={cardSuggestion}
+            selectedIndex={replacementChoice[cardSuggestion.id] ?? 0}
+            position={cardPosition}
+            onApply={(replacement) => applySuggestion(cardSuggestion, replacement)}
+            onIgnore={() => ignoreSuggestion(cardSuggestion)}
+            onIgnoreRule={cardSuggestion.ruleId ? () => ignoreRule(cardSuggestion.ruleId!) : undefined}
+            onAddToDictionary={
+              cardSuggestion.spelling && /^[\p{L}\p{M}'’-]+$/u.test(cardSuggestion.original)
+                ? () => addToDictionary(cardSuggestion.original)
+                : undefined
+            }
+            onMouseEnter={() => openCard(cardSuggestion.id)}
+            onMouseLeave={scheduleCloseCard}
+          />
+        )}
       </div>
+      <DocumentTransfer editor={editor} suggestions={suggestions} characters={characters} language={documentLanguage} />
+      <TrackChangesPanel
+        settings={trackChanges}
+        onSettingsChange={setTrackChanges}
+        revisions={revisions}
+        onResolve={(ids, accept) => resolveRevisions(editor, ids, accept)}
+      />
+      <SessionLogPanel entries={sessionLog} onRevert={revertLogEntry} onClear={clearSessionLog} />
 
       {povSuggestions.length > 0 && (
         <div style={{
@@ -829,11 +1129,12 @@ export default function App() {
           <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
             <span style={{ fontSize: 18 }}>✨</span>
             <span style={{ fontSize: 14, color: "#006d75" }}>
-              <b>POV Shift Detected:</b> Alignment issues found with {povSuggestions.length} pronouns in this paragraph.
+              <b>POV Shift Detected:</b> Alignment issues found with{" "}
+              {povSuggestions.filter((s) => s.ruleId !== "POV_VERB_AGREEMENT").length} pronouns in this paragraph.
             </span>
           </div>
           <button
-            onClick={applyAllPOVSuggestions}
+            onClick={() => applySuggestionsTogether(povSuggestions, "Align Paragraph")}
             style={{
               background: "#13c2c2",
               color: "white",
@@ -850,9 +1151,60 @@ export default function App() {
         </div>
       )}
 
+      {documentPronouns > 0 && pronounChange && changedCharacter && (
+        <div style={{
+          marginTop: 12,
+          padding: "10px 16px",
+          background: "#e6fffb",
+          border: "1px solid #87e8de",
+          borderRadius: 8,
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: 10,
+        }}>
+          <span style={{ fontSize: 14, color: "#006d75" }}>
+            <b>{changedCharacter.name || "A character"}</b> now uses {pronounLabel(changedCharacter.pronouns)}:{" "}
+            {documentPronouns} pronoun{documentPronouns === 1 ? "" : "s"} in the document still
+            use {pronounLabel(pronounChange.previous)}.
+          </span>
+          <span style={{ display: "flex", gap: 6 }}>
+            <button
+              onClick={() => setPronounChange(null)}
+              style={{ background: "white", border: "1px solid #87e8de", padding: "6px 12px", borderRadius: 6, cursor: "pointer", fontSize: 13 }}
+            >
+              Dismiss
+            </button>
+            <button
+              onClick={() => {
+                applySuggestionsTogether(documentAlignment, "Align Document");
+                setPronounChange(null);
+              }}
+              style={{
+                background: "#13c2c2",
+                color: "white",
+                border: "none",
+                padding: "6px 14px",
+                borderRadius: 6,
+                cursor: "pointer",
+                fontSize: 13,
+                fontWeight: "600"
+              }}
+            >
+              Align Document
+            </button>
+          </span>
+        </div>
+      )}
+
       <div style={{ marginTop: 14 }}>
-        <b>Suggestions</b> <span style={{ opacity: 0.65 }}>({suggestions.length})</span>
+        <b>Suggestions</b> <span style={{ opacity: 0.65 }}>({suggestions.length} in document)</span>
         {loading && <span style={{ marginLeft: 8, fontSize: 12, opacity: 0.5 }}>Checking grammar…</span>}
+        {checkFailures.map((f) => (
+          <span key={f.providerId} title={f.message} style={{ marginLeft: 8, fontSize: 12, color: "#a8071a" }}>
+            ⚠ {f.providerId === "languagetool" ? "LanguageTool" : f.providerId} unavailable: {f.message}
+          </span>
+        ))}
         <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
           {suggestions.slice(0, 10).map((s) => (
             <div
@@ -882,12 +1234,13 @@ export default function App() {
                 <div style={{ fontSize: 13, opacity: 0.7 }}>{s.kind}</div>
                 <div>{s.reason}</div>
                 <div style={{ fontSize: 13, opacity: 0.7 }}>
-                  Replace with: <code>{JSON.stringify(s.replacement)}</code>
+                  Replace with: <code>{JSON.stringify(getChosenReplacement(s))}</code>
+                  {s.replacements.length > 1 && <span> (+{s.replacements.length - 1} alternatives)</span>}
                 </div>
               </div>
             </div>
           ))}
-          {suggestions.length === 0 && <div style={{ opacity: 0.7 }}>No suggestions for the current paragraph.</div>}
+          {suggestions.length === 0 && <div style={{ opacity: 0.7 }}>No suggestions in the document.</div>}
         </div>
       </div>
 
@@ -928,10 +1281,23 @@ export default function App() {
             />
             <SettingToggle
               label="Language Fallbacks"
-              tooltip="Custom rules for subtle errors like 'It were' that the public API might skip (Local Engine)."
+              tooltip="Offline rules (repeated words, double spaces, sentence capitalization, a/an, 'It were') plus your custom rules (Local Engine)."
               checked={ruleSettings.localFallbacks}
               onChange={() => setRuleSettings(s => ({ ...s, localFallbacks: !s.localFallbacks }))}
             />
+            <SettingToggle
+              label="Narrative Consistency"
+              tooltip="Flags narration (outside quotes) that slips out of the story's person or tense, with the sentence rewritten (English, Local Engine)."
+              checked={ruleSettings.narrativeConsistency}
+              onChange={() => setRuleSettings(s => ({ ...s, narrativeConsistency: !s.narrativeConsistency }))}
+            />
+            <NarrativeSettings
+              declared={declaredNarrative}
+              inferred={inferredNarrative}
+              characters={characters}
+              onChange={setDeclaredNarrative}
+            />
+            <LanguageToolSettings config={ltConfig} onChange={setLtConfig} />
           </div>
         </div>
 
@@ -950,6 +1316,14 @@ export default function App() {
               placeholder="Gemini API Key..."
               style={{ width: "100%", padding: "8px 12px", borderRadius: 8, border: "1px solid #ddd", fontSize: 12, boxSizing: "border-box" }}
             />
+            <label style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6, fontSize: 12, opacity: 0.7 }}>
+              <input
+                type="checkbox"
+                checked={rememberApiKey}
+                onChange={() => setRememberApiKey(r => !r)}
+              />
+              Remember key on this device
+            </label>
           </div>
 
           <div style={{ display: "flex", gap: 10, marginBottom: 16 }}>
@@ -975,24 +1349,61 @@ export default function App() {
             </button>
           </div>
 
+          {editingRule && (
+            <RuleEditor
+              key={editingRule.id}
+              rule={editingRule}
+              paragraphs={paragraphTexts}
+              onSave={saveRule}
+              onCancel={() => setEditingRule(null)}
+            />
+          )}
+
+          <GrammarXmlTransfer
+            rules={customRules}
+            language={documentLanguage === AUTO_LANGUAGE ? "en" : documentLanguage}
+            onImport={(imported) => setCustomRules(prev => [...prev, ...imported])}
+          />
+
           {customRules.length > 0 && (
             <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
               <div style={{ fontSize: 11, fontWeight: "bold", opacity: 0.5 }}>ACTIVE CUSTOM RULES</div>
               {customRules.map(rule => (
                 <div key={rule.id} style={{
                   background: "white",
-                  border: "1px solid #ddd",
+                  border: `1px solid ${rule.disabled ? "#ffa39e" : "#ddd"}`,
                   borderRadius: 8,
                   padding: "8px",
                   fontSize: 12,
                 }}>
                   <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
                     <span style={{ fontWeight: "bold" }}>{rule.intent}</span>
-                    <button
-                      onClick={() => removeRule(rule.id)}
-                      style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
-                    >×</button>
+                    <span>
+                      <button
+                        onClick={() => setEditingRule(rule)}
+                        style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5, fontSize: 12 }}
+                      >Edit</button>
+                      <button
+                        onClick={() => removeRule(rule.id)}
+                        style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+                      >×</button>
+                    </span>
                   </div>
+                  {rule.warning && (
+                    <div style={{ marginTop: 4, color: "#cf1322" }}>
+                      ⚠ {rule.warning}
+                      <button
+                        onClick={() => setCustomRules(prev =>
+                          prev.map(r => (r.id === rule.id ? { ...r, disabled: undefined, warning: undefined } : r))
+                        )}
+                        style={{ border: "none", background: "none", cursor: "pointer", textDecoration: "underline", fontSize: 12 }}
+                      >Re-enable</button>
+                    </div>
+                  )}
+                  <details style={{ marginTop: 4 }}>
+                    <summary style={{ cursor: "pointer", opacity: 0.6 }}>LanguageTool XML</summary>
+                    <pre style={{ whiteSpace: "pre-wrap", fontSize: 11, margin: "4px 0 0" }}>{ruleToXml(rule)}</pre>
+                  </details>
                 </div>
               ))}
             </div>
@@ -1000,6 +1411,10 @@ export default function App() {
         </div>
       </div>
 
+      <CharacterRegistry characters={characters} onChange={updateCharacters} />
+
+      <IgnoreListsPanel lists={ignoreLists} onChange={replaceIgnoreLists} />
+
       <details style={{ marginTop: 24 }}>
         <summary>Current Slate value (debug)</summary>
         <pre style={{ whiteSpace: "pre-wrap" }}>{JSON.stringify(value, null, 2)}</pre>
@@ -1049,3 +1464,137 @@ function SettingToggle({
     </label>
   );
 }
+
+function NarrativeSettings({
+  declared,
+  inferred,
+  characters,
+  onChange
+}: {
+  declared: NarrativeStyle;
+  inferred: Pick<NarrativeStyle, "person" | "tense">;
+  characters: Character[];
+  onChange: (next: NarrativeStyle) => void
+}) {
+  const selectStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "6px 10px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: 12,
+    boxSizing: "border-box",
+  };
+  const field = (label: string, input: React.ReactNode) => (
+    <label style={{ display: "grid", gap: 4, fontSize: 12 }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      {input}
+    </label>
+  );
+  // "" means inferred; the option shows what was inferred.
+  const choice = <K extends "person" | "tense">(key: K, options: Array<NonNullable<NarrativeStyle[K]>>) => (
+    <select
+      value={declared[key] ?? ""}
+      onChange={e => onChange({ ...declared, [key]: e.target.value || null })}
+      style={selectStyle}
+    >
+      <option value="">Inferred ({inferred[key] ?? "unclear"})</option>
+      {options.map(o => <option key={o} value={o}>{o}</option>)}
+    </select>
+  );
+
+  return (
+    <details style={{ fontSize: 13 }}>
+      <summary style={{ cursor: "pointer" }}>Narrative</summary>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8, marginTop: 8 }}>
+        {field("Person", choice("person", ["first", "third"]))}
+        {field("Tense", choice("tense", ["past", "present"]))}
+        {field("Narrator", (
+          <select
+            value={declared.narratorId ?? ""}
+            onChange={e => onChange({ ...declared, narratorId: e.target.value || null })}
+            style={selectStyle}
+          >
+            <option value="">None</option>
+            {characters.map(c => <option key={c.id} value={c.id}>{c.name || "(unnamed)"}</option>)}
+          </select>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function LanguageToolSettings({
+  config,
+  onChange
+}: {
+  config: LanguageToolConfig;
+  onChange: (next: LanguageToolConfig) => void
+}) {
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "6px 10px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: 12,
+    boxSizing: "border-box",
+  };
+  const field = (label: string, input: React.ReactNode) => (
+    <label style={{ display: "grid", gap: 4, fontSize: 12 }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      {input}
+    </label>
+  );
+  // Committed on blur or Enter: every change clears the suggestions and re-checks, which
+  // shouldn't happen against a half-typed URL.
+  const committed = (
+    value: string,
+    commit: (value: string) => void,
+    props: React.InputHTMLAttributes<HTMLInputElement>
+  ) => (
+    <input
+      key={value}
+      defaultValue={value}
+      onBlur={e => {
+        if (e.target.value !== value) commit(e.target.value);
+      }}
+      onKeyDown={e => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      style={inputStyle}
+      {...props}
+    />
+  );
+  const text = (key: "baseUrl" | "motherTongue" | "username", placeholder: string) =>
+    committed(config[key], value => onChange({ ...config, [key]: value.trim() }), { placeholder });
+  const list = (key: "enabledRules" | "disabledRules") =>
+    committed(
+      config[key].join(", "),
+      value => onChange({ ...config, [key]: value.split(",").map(r => r.trim()).filter(Boolean) }),
+      { placeholder: "RULE_ID, OTHER_RULE_ID" }
+    );
+
+  return (
+    <details style={{ fontSize: 13 }}>
+      <summary style={{ cursor: "pointer" }}>LanguageTool Server</summary>
+      <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
+        {field("Base URL", text("baseUrl", "https://api.languagetool.org"))}
+        {field("Mother tongue", text("motherTongue", "e.g. de-DE"))}
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          {field("Username (premium)", text("username", "you@example.com"))}
+          {field("API key (premium)", committed(config.apiKey, apiKey => onChange({ ...config, apiKey }), {
+            type: "password",
+            placeholder: "LanguageTool API key...",
+          }))}
+        </div>
+        {field("Enabled rule IDs", list("enabledRules"))}
+        {field("Disabled rule IDs", list("disabledRules"))}
+        <SettingToggle
+          label="Picky Mode"
+          tooltip="Sends level=picky, which enables additional style rules."
+          checked={config.picky}
+          onChange={() => onChange({ ...config, picky: !config.picky })}
+        />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,127 @@
+import React from "react";
+import { PRONOUN_FORMS, PRONOUN_PRESETS, samePronouns } from "./characters";
+import { Character, PronounForm, uid } from "./suggestions";
+
+const FORM_LABELS: Record<PronounForm, string> = {
+  subject: "subject (xe)",
+  object: "object (xem)",
+  possessive: "possessive (xyr)",
+  possessivePronoun: "possessive pronoun (xyrs)",
+  reflexive: "reflexive (xemself)",
+};
+
+const DEFAULT_PRONOUNS = PRONOUN_PRESETS.find((p) => p.label === "they/them")!.pronouns;
+
+/**
+ * The document's characters: name, aliases and pronouns (a preset or any custom set).
+ */
+export function CharacterRegistry({
+  characters,
+  onChange,
+}: {
+  characters: Character[];
+  onChange: (next: Character[]) => void;
+}) {
+  const update = (id: string, patch: Partial<Character>) =>
+    onChange(characters.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const inputStyle: React.CSSProperties = {
+    padding: "4px 8px",
+    borderRadius: 6,
+    border: "1px solid #ddd",
+    fontSize: 12,
+    boxSizing: "border-box",
+  };
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+
+  return (
+    <details style={{ marginTop: 24, padding: 16, background: "#f9f9f9", borderRadius: 12, border: "1px solid #eee" }}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Characters <span style={{ fontWeight: 400, opacity: 0.65 }}>({characters.length})</span>
+      </summary>
+      <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+        <div style={{ fontSize: 12, opacity: 0.65 }}>
+          Pronoun alignment only rewrites pronouns attributed to the character under the cursor. Changing a
+          character's pronouns offers to align the whole document.
+        </div>
+        {characters.map((character) => {
+          const preset = PRONOUN_PRESETS.find((p) => samePronouns(p.pronouns, character.pronouns));
+          return (
+            <div
+              key={character.id}
+              style={{ background: "white", border: "1px solid #ddd", borderRadius: 8, padding: 8, display: "grid", gap: 6 }}
+            >
+              <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <input
+                  value={character.name}
+                  onChange={(e) => update(character.id, { name: e.target.value })}
+                  placeholder="Name"
+                  style={{ ...inputStyle, width: 140 }}
+                />
+                <input
+                  // Committed on blur, so typing "Tom, " doesn't lose the comma mid-edit.
+                  key={character.aliases.join(",")}
+                  defaultValue={character.aliases.join(", ")}
+                  onBlur={(e) =>
+                    update(character.id, { aliases: e.target.value.split(",").map((a) => a.trim()).filter(Boolean) })
+                  }
+                  placeholder="Aliases, comma-separated"
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <select
+                  value={preset?.label ?? ""}
+                  onChange={(e) => {
+                    const next = PRONOUN_PRESETS.find((p) => p.label === e.target.value);
+                    if (next) update(character.id, { pronouns: next.pronouns });
+                  }}
+                  style={inputStyle}
+                >
+                  {!preset && <option value="">custom</option>}
+                  {PRONOUN_PRESETS.map((p) => (
+                    <option key={p.label} value={p.label}>{p.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange(characters.filter((c) => c.id !== character.id))}
+                  style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+                >×</button>
+              </div>
+              <details>
+                <summary style={{ cursor: "pointer", fontSize: 12, opacity: 0.6 }}>Pronoun forms</summary>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 6, marginTop: 6 }}>
+                  {PRONOUN_FORMS.map((form) => (
+                    <label key={form} style={{ display: "grid", gap: 2, fontSize: 11 }}>
+                      <span style={{ opacity: 0.6 }}>{FORM_LABELS[form]}</span>
+                      <input
+                        value={character.pronouns[form]}
+                        onChange={(e) =>
+                          update(character.id, { pronouns: { ...character.pronouns, [form]: e.target.value.trim() } })
+                        }
+                        style={inputStyle}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </details>
+            </div>
+          );
+        })}
+        <button
+          onClick={() =>
+            onChange([...characters, { id: uid(), name: "", aliases: [], pronouns: DEFAULT_PRONOUNS }])
+          }
+          style={{ ...buttonStyle, justifySelf: "start" }}
+        >
+          + Add character
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useRef, useState } from "react";
+import { Editor, Path, Transforms } from "slate";
+import { downloadFile } from "./download";
+import { serializeDocx } from "./formats/docx";
+import { serializeFountain } from "./formats/fountain";
+import { parseMarkdown, serializeMarkdown } from "./formats/markdown";
+import { parsePlainText, serializePlainText } from "./formats/plainText";
+import { Character, Suggestion } from "./suggestions";
+import { acceptedView } from "./trackChanges";
+
+/**
+ * Export the document as Markdown, plain text, Word (optionally with the pending
+ * `suggestions` as comments) or a Fountain screenplay, or import a chapter from Markdown or
+ * text. Imported blocks go in after the block under the cursor (or at the end), as one
+ * undoable step. Only Word keeps tracked changes; the other formats get them accepted.
+ */
+export function DocumentTransfer({
+  editor,
+  suggestions,
+  characters,
+  language,
+}: {
+  editor: Editor;
+  suggestions: Suggestion[];
+  characters: Character[];
+  language: string;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+  const [withComments, setWithComments] = useState(true);
+
+  const exportDocx = () => {
+    try {
+      const docx = serializeDocx(editor.children, { comments: withComments ? suggestions : [], language });
+      downloadFile("manuscript.docx", docx, "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    } catch (e) {
+      console.error("Could not export document:", e);
+      setStatus({ message: `Could not export .docx: ${e instanceof Error ? e.message : String(e)}`, error: true });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const blocks = /\.(md|markdown)$/i.test(file.name) ? parseMarkdown(text) : parsePlainText(text);
+      const at = editor.selection ? Path.next([editor.selection.anchor.path[0]]) : [editor.children.length];
+      Transforms.insertNodes(editor, blocks, { at });
+      setStatus({ message: `Imported ${blocks.length} block${blocks.length === 1 ? "" : "s"} from ${file.name}.`, error: false });
+    } catch (e) {
+      console.error("Could not import document:", e);
+      setStatus({ message: `Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`, error: true });
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+
+  return (
+    <div style={{ marginTop: 10, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          onClick={() => downloadFile("manuscript.md", serializeMarkdown(acceptedView(editor.children)), "text/markdown")}
+          style={buttonStyle}
+        >
+          Export Markdown
+        </button>
+        <button
+          onClick={() => downloadFile("manuscript.txt", serializePlainText(acceptedView(editor.children)), "text/plain")}
+          style={buttonStyle}
+        >
+          Export text
+        </button>
+        <button onClick={exportDocx} style={buttonStyle}>Export .docx</button>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, opacity: 0.8 }}>
+          <input type="checkbox" checked={withComments} onChange={(e) => setWithComments(e.target.checked)} />
+          suggestions as comments
+        </label>
+        <button
+          onClick={() => {
+            const fountain = serializeFountain(acceptedView(editor.children), characters);
+            downloadFile("manuscript.fountain", fountain, "text/plain");
+          }}
+          style={buttonStyle}
+        >
+          Export Fountain
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Import .md / .txt</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".md,.markdown,.txt,text/markdown,text/plain"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {status && (
+        <div style={{ marginTop: 6, color: status.error ? "#cf1322" : undefined, opacity: status.error ? 1 : 0.7 }}>
+          {status.message}
+          <button
+            onClick={() => setStatus(null)}
+            style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+          >×</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from "react";
+import { downloadFile } from "./download";
+import { exportGrammarXml, importGrammarXml, XmlImportIssue } from "./ltXml";
+import { CustomRule } from "./suggestions";
+
+/**
+ * Export the custom rules as a LanguageTool grammar.xml, or import one, listing whatever
+ * could not be translated.
+ */
+export function GrammarXmlTransfer({
+  rules,
+  language,
+  onImport,
+}: {
+  rules: CustomRule[];
+  language: string;
+  onImport: (rules: CustomRule[]) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<{ file: string; imported: number; issues: XmlImportIssue[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = importGrammarXml(await file.text());
+      onImport(result.rules);
+      setReport({ file: file.name, imported: result.rules.length, issues: result.issues });
+      setError(null);
+    } catch (e) {
+      console.error("Could not import grammar XML:", e);
+      setError(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      setReport(null);
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+
+  return (
+    <div style={{ marginBottom: 16, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          onClick={() => downloadFile("grammar.xml", exportGrammarXml(rules, language), "application/xml")}
+          disabled={rules.length === 0}
+          style={{ ...buttonStyle, cursor: rules.length === 0 ? "not-allowed" : "pointer" }}
+        >
+          Export grammar.xml
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Import grammar.xml</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/xml,text/xml,.xml"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {error && <div style={{ marginTop: 6, color: "#cf1322" }}>{error}</div>}
+      {report && (
+        <div style={{ marginTop: 6 }}>
+          <div style={{ opacity: 0.7 }}>
+            Imported {report.imported} rule{report.imported === 1 ? "" : "s"} from {report.file}.
+            <button
+              onClick={() => setReport(null)}
+              style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+            >×</button>
+          </div>
+          {report.issues.length > 0 && (
+            <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+              {report.issues.map((issue, i) => (
+                <li key={i} style={{ color: issue.skipped ? "#cf1322" : "#d48806" }}>
+                  <code>{issue.rule}</code> {issue.skipped ? "skipped" : "imported"}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
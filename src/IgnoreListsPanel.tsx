@@ -0,0 +1,121 @@
+import React, { useRef, useState } from "react";
+import { downloadFile } from "./download";
+import { exportIgnoreLists, IgnoreLists, importIgnoreLists } from "./ignoreLists";
+
+/**
+ * Review, trim, export and import the personal dictionary and ignore lists.
+ */
+export function IgnoreListsPanel({
+  lists,
+  onChange,
+}: {
+  lists: IgnoreLists;
+  onChange: (next: IgnoreLists) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    downloadFile("grammar-ignore-lists.json", exportIgnoreLists(lists), "application/json");
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(importIgnoreLists(await file.text(), lists));
+      setImportError(null);
+    } catch (e) {
+      console.error("Could not import ignore lists:", e);
+      setImportError(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const chipStyle: React.CSSProperties = {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: 4,
+    background: "white",
+    border: "1px solid #ddd",
+    borderRadius: 12,
+    padding: "2px 8px",
+    fontSize: 12,
+  };
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+  const chips = (items: string[], onRemove: (item: string) => void, empty: string) =>
+    items.length === 0 ? (
+      <div style={{ fontSize: 12, opacity: 0.6 }}>{empty}</div>
+    ) : (
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+        {items.map((item) => (
+          <span key={item} style={chipStyle}>
+            {item}
+            <button
+              onClick={() => onRemove(item)}
+              style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5, padding: 0 }}
+            >×</button>
+          </span>
+        ))}
+      </div>
+    );
+
+  return (
+    <details style={{ marginTop: 24, padding: 16, background: "#f9f9f9", borderRadius: 12, border: "1px solid #eee" }}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Dictionary & Ignore Lists{" "}
+        <span style={{ fontWeight: 400, opacity: 0.65 }}>
+          ({lists.dictionary.length} words, {lists.disabledRules.length} rules, {lists.ignoredOccurrences.length} ignored)
+        </span>
+      </summary>
+      <div style={{ display: "grid", gap: 12, marginTop: 12 }}>
+        <div>
+          <div style={{ fontSize: 11, fontWeight: "bold", opacity: 0.5, marginBottom: 6 }}>PERSONAL DICTIONARY</div>
+          {chips(
+            lists.dictionary,
+            (word) => onChange({ ...lists, dictionary: lists.dictionary.filter((w) => w !== word) }),
+            "No words yet. Use “Add to dictionary” on a suggestion."
+          )}
+        </div>
+        <div>
+          <div style={{ fontSize: 11, fontWeight: "bold", opacity: 0.5, marginBottom: 6 }}>DISABLED RULES</div>
+          {chips(
+            lists.disabledRules,
+            (ruleId) => onChange({ ...lists, disabledRules: lists.disabledRules.filter((r) => r !== ruleId) }),
+            "No rules disabled."
+          )}
+        </div>
+        <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12 }}>
+          <span style={{ opacity: 0.7 }}>
+            {lists.ignoredOccurrences.length} ignored occurrence{lists.ignoredOccurrences.length === 1 ? "" : "s"} in this document
+          </span>
+          {lists.ignoredOccurrences.length > 0 && (
+            <button onClick={() => onChange({ ...lists, ignoredOccurrences: [] })} style={buttonStyle}>
+              Clear
+            </button>
+          )}
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={handleExport} style={buttonStyle}>Export JSON</button>
+          <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Import JSON</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        {importError && <div style={{ fontSize: 12, color: "#cf1322" }}>{importError}</div>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { parseTokenPatternXml, tokenPatternToXml } from "./ltXml";
+import { tagText } from "./nlp/tagger";
+import { ProviderMatch } from "./providers";
+import { customRuleRunner } from "./providers/customRuleRunner";
+import { validateCustomRule } from "./providers/customRules";
+import { CustomRule, RuleExample, TokenPattern } from "./suggestions";
+
+// Preview snippets shown per rule; the count above them is always the full total.
+const MAX_PREVIEW_MATCHES = 8;
+const SNIPPET_CONTEXT = 30;
+
+type PreviewMatch = {
+  before: string;
+  match: string;
+  after: string;
+  replacements: string[];
+  clippedStart: boolean;
+};
+
+function toPreview(text: string, m: ProviderMatch): PreviewMatch {
+  return {
+    before: text.slice(Math.max(0, m.offset - SNIPPET_CONTEXT), m.offset),
+    match: text.slice(m.offset, m.offset + m.length),
+    after: text.slice(m.offset + m.length, m.offset + m.length + SNIPPET_CONTEXT),
+    replacements: m.replacements.map((r) => r.value),
+    clippedStart: m.offset > SNIPPET_CONTEXT,
+  };
+}
+
+function parseTokens(xml: string): { tokens?: TokenPattern[]; error: string | null } {
+  try {
+    return { tokens: parseTokenPatternXml(xml), error: null };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Edit one custom rule before it goes live: the pattern (a regex, or LanguageTool-style
+ * `<token>` elements) is validated on every keystroke, then example sentences and matches
+ * over the current document are computed in the rule worker, so a pathological pattern
+ * times out instead of freezing the editor.
+ */
+export function RuleEditor({
+  rule,
+  paragraphs,
+  onSave,
+  onCancel,
+}: {
+  rule: CustomRule;
+  paragraphs: string[];
+  onSave: (rule: CustomRule) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<CustomRule>(rule);
+  const [mode, setMode] = useState<"regex" | "tokens">(rule.tokens ? "tokens" : "regex");
+  const [tokenXml, setTokenXml] = useState(rule.tokens ? tokenPatternToXml(rule.tokens) : "");
+  const [newExample, setNewExample] = useState("");
+  const examples = draft.examples ?? [];
+
+  // What would be saved: `draft` with the token pattern parsed (or dropped in regex mode).
+  const parsedTokens = useMemo(() => (mode === "tokens" ? parseTokens(tokenXml) : null), [mode, tokenXml]);
+  const candidate = useMemo<CustomRule>(
+    () => ({ ...draft, tokens: parsedTokens?.tokens }),
+    [draft, parsedTokens]
+  );
+
+  const [exampleResults, setExampleResults] = useState<boolean[]>([]);
+  const [preview, setPreview] = useState<PreviewMatch[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const validationError = parsedTokens?.error ?? validateCustomRule(candidate);
+  const patternError = validationError ?? runError;
+  const canSave = !patternError && draft.message.trim() !== "";
+
+  useEffect(() => {
+    setRunError(null);
+    if (validationError) {
+      setExampleResults([]);
+      setPreview([]);
+      return;
+    }
+    const controller = new AbortController();
+    const exampleTexts = examples.map((ex) => ex.text);
+    customRuleRunner
+      .run([candidate], [...exampleTexts, ...paragraphs], { signal: controller.signal })
+      .then(({ matches, failures }) => {
+        if (controller.signal.aborted) return;
+        setRunError(failures[0]?.reason ?? null);
+        setExampleResults(matches.slice(0, exampleTexts.length).map((m) => m.length > 0));
+        setPreview(
+          matches.slice(exampleTexts.length).flatMap((m, i) => m.map((match) => toPreview(paragraphs[i], match)))
+        );
+      })
+      .catch((e) => console.error("Rule preview failed:", e));
+    return () => controller.abort();
+  }, [candidate, paragraphs, validationError]);
+
+  const failingExamples = examples.filter((ex, i) => exampleResults[i] !== ex.shouldMatch).length;
+
+  const setExamples = (next: RuleExample[]) => setDraft((d) => ({ ...d, examples: next }));
+
+  const handleSave = () => {
+    const changed =
+      candidate.pattern !== rule.pattern ||
+      JSON.stringify(candidate.tokens) !== JSON.stringify(rule.tokens) ||
+      candidate.message !== rule.message ||
+      candidate.replacements.join("\n") !== rule.replacements.join("\n");
+    // Hand edits make any imported/generated XML stale; export then rebuilds it from the pattern.
+    onSave(changed ? { ...candidate, xml: undefined } : candidate);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "6px 10px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: 12,
+    boxSizing: "border-box",
+  };
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+  const field = (label: string, input: React.ReactNode, error?: string | null) => (
+    <label style={{ display: "grid", gap: 4, fontSize: 12 }}>
+      <span style={{ opacity: 0.7 }}>{label}</span>
+      {input}
+      {error && <span style={{ color: "#cf1322" }}>{error}</span>}
+    </label>
+  );
+
+  return (
+    <div style={{ background: "white", border: "1px solid #87e8de", borderRadius: 8, padding: 12, marginBottom: 16 }}>
+      <div style={{ display: "grid", gap: 8 }}>
+        {field("Name", (
+          <input value={draft.intent} onChange={e => setDraft({ ...draft, intent: e.target.value })} style={inputStyle} />
+        ))}
+        <div style={{ display: "flex", gap: 6, fontSize: 12 }}>
+          {(["regex", "tokens"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              style={{ ...buttonStyle, background: mode === m ? "#e6fffb" : "white", borderColor: mode === m ? "#87e8de" : "#ddd" }}
+            >
+              {m === "regex" ? "Regex" : "Tokens (part of speech, lemmas)"}
+            </button>
+          ))}
+        </div>
+        {mode === "regex" ? field("Pattern (regex, case-insensitive)", (
+          <input
+            value={draft.pattern}
+            onChange={e => setDraft({ ...draft, pattern: e.target.value })}
+            spellCheck={false}
+            style={{ ...inputStyle, fontFamily: "monospace", borderColor: patternError ? "#ff7875" : "#ddd" }}
+          />
+        ), patternError) : field("Token pattern (LanguageTool <token> elements; $1 in replacements is the first token)", (
+          <>
+            <textarea
+              value={tokenXml}
+              onChange={e => setTokenXml(e.target.value)}
+              spellCheck={false}
+              rows={4}
+              placeholder={`<token postag="RB"/>\n<marker>\n  <token inflected="yes">say</token>\n</marker>`}
+              style={{ ...inputStyle, fontFamily: "monospace", borderColor: patternError ? "#ff7875" : "#ddd" }}
+            />
+            {examples.length > 0 && (
+              <span style={{ opacity: 0.6, fontFamily: "monospace" }}>
+                {tagText(examples[0].text).map((t) => `${t.text}/${t.readings.map((r) => r.pos).join("|")}`).join(" ")}
+              </span>
+            )}
+          </>
+        ), patternError)}
+        {field("Message", (
+          <input value={draft.message} onChange={e => setDraft({ ...draft, message: e.target.value })} style={inputStyle} />
+        ), draft.message.trim() === "" ? "A message is required." : null)}
+        <div style={{ display: "grid", gap: 4, fontSize: 12 }}>
+          <span style={{ opacity: 0.7 }}>
+            Replacements — <code>$1</code> / <code>$&lt;name&gt;</code> reuse captured text, an empty one deletes the
+            match, none only flags it
+          </span>
+          {draft.replacements.map((replacement, i) => (
+            <div key={i} style={{ display: "flex", gap: 6 }}>
+              <input
+                value={replacement}
+                onChange={e => setDraft({
+                  ...draft,
+                  replacements: draft.replacements.map((r, j) => (j === i ? e.target.value : r)),
+                })}
+                placeholder="(delete the match)"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <button
+                onClick={() => setDraft({ ...draft, replacements: draft.replacements.filter((_, j) => j !== i) })}
+                style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+              >×</button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft({ ...draft, replacements: [...draft.replacements, ""] })}
+            style={{ ...buttonStyle, justifySelf: "start" }}
+          >
+            + {draft.replacements.length === 0 ? "Add replacement" : "Add alternative"}
+          </button>
+        </div>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+          <input
+            type="checkbox"
+            checked={draft.appliesToDialogue ?? true}
+            onChange={e => setDraft({ ...draft, appliesToDialogue: e.target.checked })}
+          />
+          Also check quoted dialogue
+        </label>
+
+        <div style={{ fontSize: 12 }}>
+          <div style={{ opacity: 0.7, marginBottom: 4 }}>
+            Examples {examples.length > 0 && !patternError && (
+              <span style={{ color: failingExamples ? "#cf1322" : "#389e0d" }}>
+                ({failingExamples ? `${failingExamples} failing` : "all passing"})
+              </span>
+            )}
+          </div>
+          {examples.map((ex, i) => {
+            const passed = !patternError && exampleResults[i] === ex.shouldMatch;
+            return (
+              <div key={i} style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 4 }}>
+                <span style={{ width: 14, color: passed ? "#389e0d" : "#cf1322" }}>{passed ? "✓" : "✗"}</span>
+                <button
+                  onClick={() => setExamples(examples.map((e, j) => (j === i ? { ...e, shouldMatch: !e.shouldMatch } : e)))}
+                  title="Toggle whether this sentence should be flagged"
+                  style={{ ...buttonStyle, padding: "2px 6px", width: 84 }}
+                >
+                  {ex.shouldMatch ? "should flag" : "should pass"}
+                </button>
+                <span style={{ flex: 1 }}>{ex.text}</span>
+                <button
+                  onClick={() => setExamples(examples.filter((_, j) => j !== i))}
+                  style={{ border: "none", background: "none", cursor: "pointer", opacity: 0.5 }}
+                >×</button>
+              </div>
+            );
+          })}
+          <div style={{ display: "flex", gap: 6 }}>
+            <input
+              value={newExample}
+              onChange={e => setNewExample(e.target.value)}
+              placeholder="Example sentence..."
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            {[true, false].map((shouldMatch) => (
+              <button
+                key={String(shouldMatch)}
+                disabled={!newExample.trim()}
+                onClick={() => {
+                  setExamples([...examples, { text: newExample.trim(), shouldMatch }]);
+                  setNewExample("");
+                }}
+                style={buttonStyle}
+              >
+                {shouldMatch ? "+ Should flag" : "+ Should pass"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ fontSize: 12 }}>
+          <div style={{ opacity: 0.7, marginBottom: 4 }}>
+            Preview: {patternError ? "fix the pattern first" : `${preview.length} match${preview.length === 1 ? "" : "es"} in the document`}
+          </div>
+          {preview.slice(0, MAX_PREVIEW_MATCHES).map((p, i) => (
+            <div key={i} style={{ marginBottom: 2, opacity: 0.85 }}>
+              {p.clippedStart && "…"}{p.before}
+              <mark style={{ background: "#fff1b8" }}>{p.match}</mark>
+              {p.after}…
+              {p.replacements.length > 0 && (
+                <span style={{ opacity: 0.6 }}>
+                  {" → "}
+                  {p.replacements.map((r, j) => (
+                    <React.Fragment key={j}>
+                      {j > 0 && " / "}
+                      {r === "" ? <i>(delete)</i> : <code>{JSON.stringify(r)}</code>}
+                    </React.Fragment>
+                  ))}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+          <button onClick={onCancel} style={buttonStyle}>Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            style={{
+              ...buttonStyle,
+              border: "none",
+              background: canSave ? "#13c2c2" : "#b5f5ec",
+              color: "white",
+              cursor: canSave ? "pointer" : "not-allowed",
+            }}
+          >
+            Save rule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from "react";
+import { SessionLogEntry } from "./sessionLog";
+
+const KIND_LABELS: Record<SessionLogEntry["kind"], string> = {
+  grammar: "Grammar",
+  "pov-pronoun-propagation": "POV",
+  "narrative-consistency": "Narrative",
+};
+
+/**
+ * Every suggestion applied or skipped this session, newest first, with a revert button for
+ * applied ones. Ctrl+Z only takes back the latest fix; this takes back any of them.
+ */
+export function SessionLogPanel({
+  entries,
+  onRevert,
+  onClear,
+}: {
+  entries: SessionLogEntry[];
+  onRevert: (entryId: string) => void;
+  onClear: () => void;
+}) {
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <b>Session log</b>
+        <span style={{ opacity: 0.65 }}>
+          {entries.filter((e) => e.status === "applied").length} applied,{" "}
+          {entries.filter((e) => e.status === "skipped").length} skipped
+        </span>
+        <button onClick={onClear} style={buttonStyle}>Clear</button>
+      </div>
+      <div style={{ marginTop: 8, display: "grid", gap: 6, maxHeight: 240, overflowY: "auto" }}>
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            style={{
+              border: "1px solid #eee",
+              borderRadius: 8,
+              padding: "6px 10px",
+              display: "flex",
+              gap: 10,
+              opacity: entry.status === "applied" ? 1 : 0.7,
+            }}
+          >
+            <div style={{ flex: 1 }}>
+              {entry.changes.map((change, i) => (
+                <span key={i}>
+                  {i > 0 && ", "}
+                  <span style={{ textDecoration: entry.status === "applied" ? "line-through" : undefined }}>
+                    {change.original || "∅"}
+                  </span>
+                  {" → "}
+                  {change.replacement || "∅"}
+                </span>
+              ))}
+              <div style={{ opacity: 0.6 }}>
+                {entry.status === "applied" ? "Applied" : entry.status === "skipped" ? "Skipped" : "Reverted"}
+                {" · "}
+                {KIND_LABELS[entry.kind]}, {new Date(entry.time).toLocaleTimeString()} — {entry.reason}
+              </div>
+              {entry.revertError && <div style={{ color: "#a8071a" }}>{entry.revertError}</div>}
+            </div>
+            {entry.status === "applied" && (
+              <button onClick={() => onRevert(entry.id)} style={buttonStyle}>Revert</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
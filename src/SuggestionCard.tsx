@@ -0,0 +1,106 @@
+import React from "react";
+import { Suggestion } from "./suggestions";
+
+// How many ranked alternatives the card lists (LT can return dozens for typos).
+export const MAX_CHOICES = 6;
+
+/**
+ * Popover for one underlined suggestion: every ranked replacement plus ignore actions.
+ * Positioned by the caller from `ReactEditor.toDOMRange` of the suggestion's range.
+ */
+export function SuggestionCard({
+  suggestion,
+  selectedIndex,
+  position,
+  onApply,
+  onIgnore,
+  onIgnoreRule,
+  onAddToDictionary,
+  onMouseEnter,
+  onMouseLeave,
+}: {
+  suggestion: Suggestion;
+  selectedIndex: number;
+  position: { top: number; left: number };
+  onApply: (replacement: string) => void;
+  onIgnore: () => void;
+  onIgnoreRule?: () => void;
+  onAddToDictionary?: () => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}) {
+  const choices = suggestion.replacements.slice(0, MAX_CHOICES);
+  const isPOV = suggestion.kind === "pov-pronoun-propagation";
+
+  const actionStyle: React.CSSProperties = {
+    border: "none",
+    background: "none",
+    padding: "4px 0",
+    cursor: "pointer",
+    fontSize: 12,
+    color: "#595959",
+    textAlign: "left",
+  };
+
+  return (
+    <div
+      // Keep focus (and the selection) in the editor while clicking inside the card.
+      onMouseDown={(e) => e.preventDefault()}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      style={{
+        position: "fixed",
+        top: position.top,
+        left: position.left,
+        zIndex: 10,
+        width: 300,
+        background: "white",
+        border: "1px solid #e8e8e8",
+        borderRadius: 10,
+        boxShadow: "0 6px 18px rgba(0, 0, 0, 0.12)",
+        padding: 12,
+        fontSize: 13,
+      }}
+    >
+      <div style={{ fontSize: 11, opacity: 0.6, marginBottom: 4 }}>
+        {suggestion.category ?? suggestion.kind}
+        {suggestion.ruleId && <code style={{ marginLeft: 6 }}>{suggestion.ruleId}</code>}
+      </div>
+      <div style={{ marginBottom: 10 }}>{suggestion.reason}</div>
+
+      {choices.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 10 }}>
+          {choices.map((choice, i) => (
+            <button
+              key={`${i}:${choice}`}
+              onClick={() => onApply(choice)}
+              style={{
+                border: `1px solid ${i === selectedIndex ? (isPOV ? "#13c2c2" : "#1677ff") : "#ddd"}`,
+                background: i === selectedIndex ? (isPOV ? "#e6fffb" : "#e6f4ff") : "white",
+                borderRadius: 8,
+                padding: "4px 10px",
+                cursor: "pointer",
+                fontWeight: i === 0 ? 600 : 400,
+              }}
+            >
+              {choice === "" ? <i>(delete)</i> : choice}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "grid", borderTop: "1px solid #f0f0f0", paddingTop: 6 }}>
+        <button onClick={onIgnore} style={actionStyle}>Ignore</button>
+        {onIgnoreRule && <button onClick={onIgnoreRule} style={actionStyle}>Ignore rule</button>}
+        {onAddToDictionary && (
+          <button onClick={onAddToDictionary} style={actionStyle}>
+            Add “{suggestion.original}” to dictionary
+          </button>
+        )}
+      </div>
+      {choices.length > 1 && (
+        <div style={{ fontSize: 11, opacity: 0.5, marginTop: 6 }}>Alt+↑/↓ to cycle, Tab to apply</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from "react";
+import { Revision } from "./richText";
+import { RevisionSummary, TrackChangesSettings } from "./trackChanges";
+
+// "Inserted by Ann, 10/19/2026, 14:02 — Possible spelling mistake", for tooltips.
+export function describeRevision(label: string, revision: Revision): string {
+  const when = new Date(revision.time).toLocaleString();
+  return `${label} by ${revision.author}, ${when}${revision.reason ? ` — ${revision.reason}` : ""}`;
+}
+
+/**
+ * Switch track changes on and off, set the author name, and review pending revisions:
+ * accept or reject one, or all at once.
+ */
+export function TrackChangesPanel({
+  settings,
+  onSettingsChange,
+  revisions,
+  onResolve,
+}: {
+  settings: TrackChangesSettings;
+  onSettingsChange: (next: TrackChangesSettings) => void;
+  revisions: RevisionSummary[];
+  // `null` ids: every revision.
+  onResolve: (ids: string[] | null, accept: boolean) => void;
+}) {
+  const buttonStyle: React.CSSProperties = {
+    border: "1px solid #ddd",
+    borderRadius: 8,
+    padding: "4px 10px",
+    cursor: "pointer",
+    background: "white",
+    fontSize: 12,
+  };
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+          />
+          <b>Track changes</b>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, opacity: 0.8 }}>
+          as
+          <input
+            value={settings.author}
+            onChange={(e) => onSettingsChange({ ...settings, author: e.target.value })}
+            style={{ padding: "2px 6px", borderRadius: 6, border: "1px solid #ddd", fontSize: 12, width: 110 }}
+          />
+        </label>
+        {revisions.length > 0 && (
+          <>
+            <span style={{ opacity: 0.65 }}>
+              {revisions.length} change{revisions.length === 1 ? "" : "s"} to review
+            </span>
+            <button onClick={() => onResolve(null, true)} style={buttonStyle}>Accept all</button>
+            <button onClick={() => onResolve(null, false)} style={buttonStyle}>Reject all</button>
+          </>
+        )}
+      </div>
+      {revisions.length > 0 && (
+        <div style={{ marginTop: 8, display: "grid", gap: 6 }}>
+          {revisions.map(({ revision, inserted, deleted }) => (
+            <div
+              key={revision.id}
+              style={{ border: "1px solid #eee", borderRadius: 8, padding: "6px 10px", display: "flex", gap: 10 }}
+            >
+              <div style={{ flex: 1 }}>
+                {deleted && <del style={{ color: "#a8071a" }}>{deleted}</del>}
+                {deleted && inserted && " → "}
+                {inserted && <ins style={{ color: "#237804" }}>{inserted}</ins>}
+                <div style={{ opacity: 0.6 }}>
+                  {revision.author}, {new Date(revision.time).toLocaleString()}
+                  {revision.reason && ` — ${revision.reason}`}
+                </div>
+              </div>
+              <button onClick={() => onResolve([revision.id], true)} style={buttonStyle}>Accept</button>
+              <button onClick={() => onResolve([revision.id], false)} style={buttonStyle}>Reject</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { toUnicodeRegExp } from "./language";
+import { verbAgreementEdits } from "./nlp/agreement";
+import { CorefContext, ResolvedPronoun, resolvePronouns } from "./nlp/coreference";
+import { agreementClass } from "./nlp/verbs";
+import { matchCase } from "./providers/customRules";
+import { ProviderMatch } from "./providers/types";
+import { Character, PronounForm, PronounSet } from "./suggestions";
+
+// ------------------------- Character registry + pronoun alignment ----------------------------
+
+export const PRONOUN_FORMS: PronounForm[] = ["subject", "object", "possessive", "possessivePronoun", "reflexive"];
+
+function pronounSet(subject: string, object = "", possessive = "", possessivePronoun = "", reflexive = ""): PronounSet {
+  return { subject, object, possessive, possessivePronoun, reflexive };
+}
+
+export const PRONOUN_PRESETS: Array<{ label: string; pronouns: PronounSet }> = [
+  { label: "he/him", pronouns: pronounSet("he", "him", "his", "his", "himself") },
+  { label: "she/her", pronouns: pronounSet("she", "her", "her", "hers", "herself") },
+  { label: "they/them", pronouns: pronounSet("they", "them", "their", "theirs", "themself") },
+  { label: "xe/xem", pronouns: pronounSet("xe", "xem", "xyr", "xyrs", "xemself") },
+  { label: "ze/hir", pronouns: pronounSet("ze", "hir", "hir", "hirs", "hirself") },
+  { label: "ey/em", pronouns: pronounSet("ey", "em", "eir", "eirs", "emself") },
+  { label: "fae/faer", pronouns: pronounSet("fae", "faer", "faer", "faers", "faerself") },
+  // French and Spanish: subject pronouns only, as in the POV provider's tables.
+  { label: "il (fr)", pronouns: pronounSet("il") },
+  { label: "elle (fr)", pronouns: pronounSet("elle") },
+  { label: "iel (fr)", pronouns: pronounSet("iel") },
+  { label: "él (es)", pronouns: pronounSet("él") },
+  { label: "ella (es)", pronouns: pronounSet("ella") },
+  { label: "elle (es)", pronouns: pronounSet("elle") },
+];
+
+// Recognized in the text, but not offered as presets.
+const VARIANT_SETS: PronounSet[] = [pronounSet("they", "them", "their", "theirs", "themselves")];
+
+export function pronounLabel(pronouns: PronounSet): string {
+  return [pronouns.subject, pronouns.object].filter(Boolean).join("/");
+}
+
+export function samePronouns(a: PronounSet, b: PronounSet): boolean {
+  return PRONOUN_FORMS.every((form) => a[form].toLowerCase() === b[form].toLowerCase());
+}
+
+function allPronounSets(characters: Character[]): PronounSet[] {
+  return [...PRONOUN_PRESETS.map((p) => p.pronouns), ...VARIANT_SETS, ...characters.map((c) => c.pronouns)];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function formsIn(pronouns: PronounSet, word: string): PronounForm[] {
+  return PRONOUN_FORMS.filter((form) => pronouns[form] && pronouns[form].toLowerCase() === word);
+}
+
+/**
+ * Every form `word` fills in any known pronoun set ("her" → object and possessive).
+ */
+function knownForms(word: string, characters: Character[]): PronounForm[] {
+  return PRONOUN_FORMS.filter((form) => allPronounSets(characters).some((set) => formsIn(set, word).includes(form)));
+}
+
+/**
+ * Where `character`'s name or one of its aliases appears in `text`.
+ */
+export function findMentions(text: string, characters: Character[]): Array<{ characterId: string; start: number; end: number }> {
+  const mentions: Array<{ characterId: string; start: number; end: number }> = [];
+  for (const character of characters) {
+    const names = [character.name, ...character.aliases].map((n) => n.trim()).filter(Boolean);
+    if (names.length === 0) continue;
+    // Longest first, so "Anna Smith" wins over "Anna".
+    const source = names.sort((a, b) => b.length - a.length).map(escapeRegExp).join("|");
+    for (const m of text.matchAll(toUnicodeRegExp(`\\b(?:${source})\\b`, "g"))) {
+      mentions.push({ characterId: character.id, start: m.index ?? 0, end: (m.index ?? 0) + m[0].length });
+    }
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+export type AttributedPronoun = ResolvedPronoun & { characterId: string | null };
+
+export type AttributionOptions = {
+  // Who earlier paragraphs mentioned; see `CorefContext`.
+  context?: CorefContext;
+  // The pronouns a character is currently written with; defaults to its registered set.
+  writtenPronouns?: (character: Character) => PronounSet;
+};
+
+/**
+ * Attribute every pronoun in `text` with the offline coreference resolver: registered
+ * characters are found by name and alias and agree with the pronouns they are written
+ * with; other capitalized names and unnamed referents compete too, but aren't characters.
+ */
+export function attributePronouns(
+  text: string,
+  characters: Character[],
+  { context, writtenPronouns = (c) => c.pronouns }: AttributionOptions = {}
+): { pronouns: AttributedPronoun[]; context: CorefContext } {
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const result = resolvePronouns(text, {
+    mentions: findMentions(text, characters).map((m) => ({ entityId: m.characterId, start: m.start, end: m.end })),
+    pronounsOf: (id) => {
+      const character = byId.get(id);
+      return character && writtenPronouns(character);
+    },
+    pronounSets: allPronounSets(characters),
+    context,
+  });
+  return {
+    pronouns: result.pronouns.map((p) => ({ ...p, characterId: p.entityId && byId.has(p.entityId) ? p.entityId : null })),
+    context: result.context,
+  };
+}
+
+/**
+ * Rewrite the pronouns resolved to `entityId` into `target`. The form each one fills
+ * decides the replacement; if that is unknown, every form it could fill is offered.
+ */
+function alignmentMatches(
+  pronouns: ResolvedPronoun[],
+  entityId: string,
+  target: PronounSet,
+  characters: Character[],
+  message: (pronoun: ResolvedPronoun) => string
+): ProviderMatch[] {
+  const matches: ProviderMatch[] = [];
+  for (const pronoun of pronouns) {
+    if (pronoun.entityId !== entityId) continue;
+    const word = pronoun.word.toLowerCase();
+    if (formsIn(target, word).length > 0 || reflexiveAlternatives(target.reflexive).includes(word)) continue;
+    const forms = pronoun.form ? [pronoun.form] : knownForms(word, characters);
+    const values = [...new Set(forms.flatMap((form) => reflexiveAlternatives(target[form])).filter(Boolean))];
+    if (values.length === 0) continue;
+    matches.push({
+      kind: "pov-pronoun-propagation",
+      message: message(pronoun),
+      offset: pronoun.offset,
+      length: pronoun.length,
+      replacements: values.map((value) => ({ value: matchCase(value, pronoun.word) })),
+      ruleId: "POV_CHARACTER",
+      category: "POV",
+    });
+  }
+  return matches;
+}
+
+// Singular "they" takes "themself" or "themselves"; the set's own choice comes first.
+function reflexiveAlternatives(value: string): string[] {
+  const lower = value.toLowerCase();
+  if (lower === "themself") return [value, "themselves"];
+  if (lower === "themselves") return [value, "themself"];
+  return [value];
+}
+
+/**
+ * Add verb-agreement companions to the matches that turn a subject pronoun between
+ * singular and plural conjugation ("He walks" → "They walk", "Is she" → "Are they").
+ * A companion shares its pronoun's `group`, so applying either applies both.
+ */
+export function withVerbAgreement(text: string, matches: ProviderMatch[], characters: Character[]): ProviderMatch[] {
+  // "they" is conjugated as plural ("they walk") even when it means one person.
+  const changesNumber = (m: ProviderMatch) => {
+    const word = text.slice(m.offset, m.offset + m.length);
+    const value = m.replacements[0]?.value;
+    return !!value && knownForms(word.toLowerCase(), characters).includes("subject") && agreementClass(word) !== agreementClass(value);
+  };
+  const edits = verbAgreementEdits(
+    text,
+    matches.filter(changesNumber).map((m) => ({ offset: m.offset, subject: m.replacements[0].value }))
+  );
+
+  const result: ProviderMatch[] = [];
+  for (const match of matches) {
+    const companions = edits.get(match.offset) ?? [];
+    if (companions.length === 0) {
+      result.push(match);
+      continue;
+    }
+    const group = `subject:${match.offset}`;
+    result.push({ ...match, group });
+    for (const edit of companions) {
+      result.push({
+        kind: match.kind,
+        message: `Verb agreement with “${match.replacements[0].value}”.`,
+        offset: edit.offset,
+        length: edit.length,
+        replacements: [{ value: edit.replacement }],
+        ruleId: "POV_VERB_AGREEMENT",
+        category: match.category,
+        group,
+      });
+    }
+  }
+  return result;
+}
+
+function percent(confidence: number) {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Suggestions turning the pronouns attributed to `character` into its registered forms.
+ */
+export function getCharacterAlignmentMatches(
+  text: string,
+  character: Character,
+  characters: Character[],
+  options: AttributionOptions = {}
+): { matches: ProviderMatch[]; context: CorefContext } {
+  const { pronouns, context } = attributePronouns(text, characters, options);
+  const label = pronounLabel(character.pronouns);
+  const matches = alignmentMatches(pronouns, character.id, character.pronouns, characters, (p) =>
+    `${character.name} uses ${label} (${percent(p.confidence)} sure this refers to ${character.name}).`
+  );
+  return { matches: withVerbAgreement(text, matches, characters), context };
+}
+
+/**
+ * Offline propagation from the pronoun at `offset`: the pronouns resolved to the same
+ * referent are aligned to the set that pronoun belongs to. Pronouns of other people stay.
+ */
+export function getPronounChainMatches(text: string, offset: number, characters: Character[]): ProviderMatch[] {
+  const { pronouns } = attributePronouns(text, characters);
+  const anchor = pronouns.find((p) => p.offset <= offset && offset <= p.offset + p.length);
+  const target = anchor && PRONOUN_PRESETS.find((p) => formsIn(p.pronouns, anchor.word.toLowerCase()).length > 0);
+  if (!anchor?.entityId || !target) return [];
+
+  const referent = anchor.entityId.startsWith("name:") ? anchor.entityId.slice(5) : `“${anchor.word}”`;
+  const matches = alignmentMatches(pronouns, anchor.entityId, target.pronouns, characters, (p) =>
+    `Align pronouns to ${target.label} (${percent(p.confidence)} sure this refers to the same person as ${referent}).`
+  ).map((m) => ({ ...m, ruleId: "POV_PRONOUN" }));
+  return withVerbAgreement(text, matches, characters);
+}
+
+/**
+ * The registered character that the name, alias or pronoun at `offset` refers to, if any.
+ */
+export function findCharacterAt(text: string, offset: number, characters: Character[]): Character | null {
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const mention = findMentions(text, characters).find((m) => m.start <= offset && offset <= m.end);
+  if (mention) return byId.get(mention.characterId) ?? null;
+  const pronoun = attributePronouns(text, characters).pronouns.find(
+    (p) => p.offset <= offset && offset <= p.offset + p.length
+  );
+  return (pronoun?.characterId && byId.get(pronoun.characterId)) || null;
+}
@@ -0,0 +1,187 @@
+import { Editor, Node, Path, Range, Text } from "slate";
+import { isParagraph } from "./documentStore";
+import { filterIgnoredMatches, IgnoreLists } from "./ignoreLists";
+import { resolveLanguage } from "./language";
+import { dialogueAt, segmentDialogue } from "./nlp/dialogue";
+import { providerRegistry, ProviderContext, ProviderMatch, SuggestionProvider } from "./providers";
+import {
+  Character,
+  compareSuggestions,
+  CustomRule,
+  getRangeFromOffsets,
+  LanguageToolConfig,
+  NarrativeStyle,
+  RuleSettings,
+  Suggestion,
+  TextNodeEntry,
+  uid,
+} from "./suggestions";
+import { acceptedText } from "./trackChanges";
+
+// ------------------------- Grammar engine (Hybrid) ----------------------------
+
+/**
+ * Map Slate text nodes to absolute offsets within the paragraph string. Tracked deletions
+ * are left out: offsets are into the text with every change accepted.
+ */
+export function getParagraphTextNodes(editor: Editor, paragraphPath: Path): TextNodeEntry[] {
+  const paragraphTextNodes: TextNodeEntry[] = [];
+  let currentOffset = 0;
+  for (const [n, p] of Node.texts(Node.get(editor, paragraphPath))) {
+    if ((n as Text).deletion) continue;
+    const text = (n as Text).text;
+    paragraphTextNodes.push({
+      path: paragraphPath.concat(p),
+      text: text,
+      start: currentOffset,
+      end: currentOffset + text.length,
+    });
+    currentOffset += text.length;
+  }
+  return paragraphTextNodes;
+}
+
+/**
+ * Offset-based matches in `text` → Slate-ranged suggestions; matches that don't map onto
+ * `nodes` are dropped.
+ */
+export function toSuggestions(matches: ProviderMatch[], text: string, nodes: TextNodeEntry[]): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  // Provider group names are only unique within the paragraph.
+  const groups = new Map<string, string>();
+  for (const match of matches) {
+    const original = text.slice(match.offset, match.offset + match.length);
+    const range = getRangeFromOffsets(nodes, match.offset, match.offset + match.length);
+    if (match.group && !groups.has(match.group)) groups.set(match.group, uid());
+    if (range) {
+      suggestions.push({
+        id: uid(),
+        kind: match.kind,
+        range,
+        original,
+        replacements: match.replacements.map((r) => r.value),
+        reason: match.message,
+        ruleId: match.ruleId,
+        category: match.category,
+        spelling: match.spelling,
+        group: match.group && groups.get(match.group),
+      });
+    }
+  }
+  return suggestions;
+}
+
+// A provider that threw for a paragraph: LanguageTool unreachable, rejecting the key, out of retries…
+export type ProviderFailure = { providerId: string; message: string };
+
+export type ParagraphResult = { suggestions: Suggestion[]; failures: ProviderFailure[] };
+
+export type CheckOptions = {
+  customRules: CustomRule[];
+  characters: Character[];
+  // Declared or inferred over the whole document; nothing is checked against it by default.
+  narrative?: NarrativeStyle;
+  settings: RuleSettings;
+  apiKey: string;
+  languageTool: LanguageToolConfig;
+  // Used for paragraphs without their own `lang`; may be "auto".
+  documentLanguage: string;
+  signal?: AbortSignal;
+  // Defaults to the whole registry.
+  providers?: SuggestionProvider[];
+  // Personal dictionary, disabled rule ids and ignored occurrences.
+  ignoreLists?: IgnoreLists;
+};
+
+/**
+ * Run every enabled provider over one paragraph and convert their offset-based matches
+ * into Slate-ranged suggestions. Providers that fail are listed beside them, so the writer
+ * can be told rather than silently getting fewer suggestions.
+ */
+export async function getSuggestionsForParagraph(
+  editor: Editor,
+  paragraphPath: Path,
+  selection: Range | null,
+  options: CheckOptions
+): Promise<ParagraphResult> {
+  const {
+    customRules,
+    characters,
+    narrative = { person: null, tense: null, narratorId: null },
+    settings,
+    apiKey,
+    languageTool,
+    documentLanguage,
+    signal = new AbortController().signal,
+    providers = providerRegistry.list(),
+    ignoreLists,
+  } = options;
+
+  // Scene breaks and lists hold no text of their own; their items are checked one by one.
+  const paragraph = Node.get(editor, paragraphPath);
+  const paragraphText = acceptedText(paragraph);
+  if (!isParagraph(paragraph) || !paragraphText.trim()) return { suggestions: [], failures: [] };
+
+  const { language, autoDetected } = resolveLanguage(paragraph.lang, documentLanguage, paragraphText);
+
+  const paragraphTextNodes = getParagraphTextNodes(editor, paragraphPath);
+  const { passages } = segmentDialogue(paragraphText);
+
+  const ctx: ProviderContext = {
+    text: paragraphText,
+    block: paragraph.type,
+    nodes: paragraphTextNodes,
+    dialogue: passages,
+    selection,
+    customRules,
+    characters,
+    narrative,
+    settings,
+    apiKey,
+    languageTool,
+    language,
+    autoDetected,
+    signal,
+  };
+
+  const enabled = providers.filter((p) => !p.isEnabled || p.isEnabled(ctx));
+  const results = await Promise.allSettled(enabled.map(async (p) => p.check(ctx)));
+  // Superseded while providers were running: whatever came back is for an outdated check.
+  if (signal.aborted) return { suggestions: [], failures: [] };
+
+  const allMatches: ProviderMatch[] = [];
+  const failures: ProviderFailure[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      // Matches of checks that don't apply to speech are dropped when they fall inside it.
+      const provider = enabled[i];
+      const inSpeech = (m: ProviderMatch) => !!dialogueAt(passages, m.offset, m.offset + m.length);
+      allMatches.push(
+        ...result.value.filter((m) => (m.appliesToDialogue ?? provider.appliesToDialogue ?? true) || !inSpeech(m))
+      );
+    } else if (!signal.aborted) {
+      console.error(`Suggestion provider "${enabled[i].id}" failed:`, result.reason);
+      const { reason } = result;
+      failures.push({ providerId: enabled[i].id, message: reason instanceof Error ? reason.message : String(reason) });
+    }
+  });
+
+  const kept = ignoreLists ? filterIgnoredMatches(allMatches, paragraphText, ignoreLists) : allMatches;
+
+  const suggestions = toSuggestions(kept, paragraphText, paragraphTextNodes);
+
+  // Stable sort: earlier offsets first
+  suggestions.sort(compareSuggestions);
+
+  // Light de-dupe
+  const seen = new Set<string>();
+  const unique = suggestions.filter((s) => {
+    const start = Range.start(s.range);
+    const end = Range.end(s.range);
+    const key = `${start.path.join(",")}:${start.offset}-${end.offset}:${s.replacements[0] ?? ""}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { suggestions: unique, failures };
+}
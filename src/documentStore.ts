@@ -0,0 +1,96 @@
+import { Editor, Element as SlateElement, Path, Point, Range } from "slate";
+import { TEXT_BLOCK_TYPES, TextBlockElement } from "./richText";
+import { compareSuggestions, Suggestion } from "./suggestions";
+import { acceptedText } from "./trackChanges";
+
+// ------------------------- Document-wide suggestion store ----------------------------
+
+/**
+ * The result of checking one paragraph: the text (and declared `lang`) it was computed
+ * from and the suggestions still pending in it (rebased through every edit since).
+ */
+export type ParagraphCheck = {
+  text: string;
+  lang?: string;
+  suggestions: Suggestion[];
+  // A provider failed: checked again on the next pass even if the text is unchanged.
+  failed?: boolean;
+};
+
+// Keyed by paragraph id (see `withParagraphIds`).
+export type SuggestionStore = Map<string, ParagraphCheck>;
+
+export type ParagraphEntry = { id: string; path: Path; text: string; lang?: string };
+
+/**
+ * A paragraph in the checker's sense: any block that holds text (a paragraph, heading,
+ * block quote or list item). Lists and scene breaks are not.
+ */
+export function isParagraph(n: any): n is TextBlockElement {
+  return SlateElement.isElement(n) && TEXT_BLOCK_TYPES.has(n.type);
+}
+
+export function getParagraphEntries(editor: Editor): ParagraphEntry[] {
+  const entries: ParagraphEntry[] = [];
+  for (const [node, path] of Editor.nodes(editor, { at: [], match: isParagraph })) {
+    const { id, lang } = node as TextBlockElement;
+    if (id) entries.push({ id, path, text: acceptedText(node), lang });
+  }
+  return entries;
+}
+
+export function findParagraphById(editor: Editor, id: string): ParagraphEntry | null {
+  return getParagraphEntries(editor).find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Whether `check` still describes the paragraph as it is now.
+ */
+export function isCheckCurrent(check: ParagraphCheck | undefined, paragraph: ParagraphEntry): boolean {
+  return !!check && !check.failed && check.text === paragraph.text && check.lang === paragraph.lang;
+}
+
+/**
+ * Paragraphs that have never been checked or whose text or language changed since their last check.
+ */
+export function getStaleParagraphs(editor: Editor, store: SuggestionStore): ParagraphEntry[] {
+  return getParagraphEntries(editor).filter((p) => !isCheckCurrent(store.get(p.id), p));
+}
+
+/**
+ * Drop entries for paragraphs that no longer exist. Returns the same map if nothing changed.
+ */
+export function pruneStore(editor: Editor, store: SuggestionStore): SuggestionStore {
+  const live = new Set(getParagraphEntries(editor).map((p) => p.id));
+  if ([...store.keys()].every((id) => live.has(id))) return store;
+  return new Map([...store].filter(([id]) => live.has(id)));
+}
+
+function rebasePoint(point: Point, from: Path, to: Path): Point {
+  return { ...point, path: [...to, ...point.path.slice(from.length)] };
+}
+
+/**
+ * Move suggestions computed for a paragraph at `from` onto the same paragraph at `to`
+ * (used when a check resolves after other paragraphs were inserted or removed).
+ */
+export function rebaseSuggestions(suggestions: Suggestion[], from: Path, to: Path): Suggestion[] {
+  if (Path.equals(from, to)) return suggestions;
+  return suggestions.map((s) => ({
+    ...s,
+    range: {
+      anchor: rebasePoint(s.range.anchor, from, to),
+      focus: rebasePoint(s.range.focus, from, to),
+    } as Range,
+  }));
+}
+
+/**
+ * Every pending suggestion in the document, in document order. Ranges are kept current
+ * by `transformStore`, so this needs no editor access.
+ */
+export function resolveSuggestions(store: SuggestionStore): Suggestion[] {
+  const all: Suggestion[] = [];
+  for (const check of store.values()) all.push(...check.suggestions);
+  return all.sort(compareSuggestions);
+}
@@ -0,0 +1,307 @@
+import { Descendant, Element as SlateElement, Path, Range, Text } from "slate";
+import { AUTO_LANGUAGE, detectLanguage } from "../language";
+import { CustomText, isList, isTextBlock, TextBlockElement } from "../richText";
+import { compareSuggestions, Suggestion } from "../suggestions";
+import { acceptedText } from "../trackChanges";
+import { createZip } from "./zip";
+
+// ------------------------- Word (.docx) ----------------------------
+
+export type DocxOptions = {
+  // Pending suggestions to attach as Word comments on the text they flag.
+  comments?: Suggestion[];
+  // Language of blocks without their own `lang`; "auto" detects it.
+  language?: string;
+  author?: string;
+};
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const DOC_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const WORD_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml";
+
+// Characters XML 1.0 cannot carry at all, even escaped.
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ---- Parts ----
+
+const CONTENT_TYPES = (comments: boolean) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="${WORD_TYPE}.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="${WORD_TYPE}.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="${WORD_TYPE}.numbering+xml"/>
+${comments ? `<Override PartName="/word/comments.xml" ContentType="${WORD_TYPE}.comments+xml"/>\n` : ""}</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}">
+<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = (comments: boolean) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}">
+<Relationship Id="rId1" Type="${DOC_REL}/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="${DOC_REL}/numbering" Target="numbering.xml"/>
+${comments ? `<Relationship Id="rId3" Type="${DOC_REL}/comments" Target="comments.xml"/>\n` : ""}</Relationships>`;
+
+// Manuscript defaults: 12pt Times, double spaced, first lines indented half an inch.
+// Without a language, Word falls back to the reader's own.
+const STYLES = (language: string | null) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/>\
+<w:sz w:val="24"/>${language ? `<w:lang w:val="${escapeXml(language)}"/>` : ""}</w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/>\
+<w:pPr><w:ind w:firstLine="720"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/>\
+<w:next w:val="Normal"/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:after="480"/><w:ind w:firstLine="0"/>\
+<w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/>\
+<w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:ind w:firstLine="0"/>\
+<w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>\
+<w:pPr><w:ind w:left="720" w:right="720" w:firstLine="0"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>\
+<w:pPr><w:ind w:left="720" w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="SceneBreak"><w:name w:val="Scene Break"/><w:basedOn w:val="Normal"/>\
+<w:next w:val="Normal"/><w:pPr><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr></w:style>
+</w:styles>`;
+
+// Bullets are one shared list; each numbered list gets its own so it restarts at 1.
+function numberingXml(numberedLists: number): string {
+  const level = (format: string, text: string) =>
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>` +
+    `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>`;
+  const nums = [`<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>`];
+  for (let i = 0; i < numberedLists; i++) {
+    nums.push(
+      `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/>` +
+        `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+    );
+  }
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}">
+<w:abstractNum w:abstractNumId="0">${level("bullet", "•")}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1">${level("decimal", "%1.")}</w:abstractNum>
+${nums.join("\n")}
+</w:numbering>`;
+}
+
+function commentsXml(comments: Array<{ id: number; suggestion: Suggestion }>, author: string): string {
+  const body = comments.map(({ id, suggestion }) => {
+    const lines = [suggestion.reason];
+    if (suggestion.replacements.length > 0) lines.push(`Suggestion: ${suggestion.replacements.join(" / ")}`);
+    const paragraphs = lines.map((line) => `<w:p><w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`);
+    return `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:initials="${escapeXml(author.charAt(0))}">` +
+      `${paragraphs.join("")}</w:comment>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:comments xmlns:w="${W_NS}">
+${body.join("\n")}
+</w:comments>`;
+}
+
+// ---- Body ----
+
+// Where comments open and close inside one text leaf.
+type CommentEdge = { offset: number; id: number; start: boolean };
+
+// What every paragraph of the body shares: comment edges by leaf path, the next id for a
+// tracked change (Word wants one per <w:ins>/<w:del>, distinct from comment ids), and the
+// language to mark a paragraph with when it differs from the document's.
+type BodyContext = {
+  edgesAt: Map<string, CommentEdge[]>;
+  nextRevisionId: number;
+  languageOf: (block: TextBlockElement) => string | undefined;
+};
+
+function runXml(text: string, leaf: CustomText, lang: string | undefined, body: BodyContext): string {
+  const props = [
+    leaf.bold ? "<w:b/>" : "",
+    leaf.italic ? "<w:i/>" : "",
+    leaf.underline ? `<w:u w:val="single"/>` : "",
+    lang ? `<w:lang w:val="${escapeXml(lang)}"/>` : "",
+  ].join("");
+  // Hard line breaks and tabs are elements of their own in WordprocessingML.
+  const textTag = leaf.deletion ? "w:delText" : "w:t";
+  const content = text
+    .split(/(\n|\t)/)
+    .filter(Boolean)
+    .map((part) => {
+      if (part === "\n") return "<w:br/>";
+      return part === "\t" ? "<w:tab/>" : `<${textTag} xml:space="preserve">${escapeXml(part)}</${textTag}>`;
+    })
+    .join("");
+  if (!content) return "";
+  const run = `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${content}</w:r>`;
+
+  // Tracked changes stay reviewable in Word.
+  const revision = leaf.insertion ?? leaf.deletion;
+  if (!revision) return run;
+  const tag = leaf.insertion ? "w:ins" : "w:del";
+  const date = new Date(revision.time).toISOString().replace(/\.\d+Z$/, "Z");
+  return `<${tag} w:id="${body.nextRevisionId++}" w:author="${escapeXml(revision.author)}" w:date="${date}">${run}</${tag}>`;
+}
+
+function leafXml(leaf: CustomText, edges: CommentEdge[], lang: string | undefined, body: BodyContext): string {
+  const parts: string[] = [];
+  let at = 0;
+  for (const edge of edges) {
+    parts.push(runXml(leaf.text.slice(at, edge.offset), leaf, lang, body));
+    at = Math.max(at, edge.offset);
+    if (edge.start) {
+      parts.push(`<w:commentRangeStart w:id="${edge.id}"/>`);
+    } else {
+      parts.push(`<w:commentRangeEnd w:id="${edge.id}"/><w:r><w:commentReference w:id="${edge.id}"/></w:r>`);
+    }
+  }
+  parts.push(runXml(leaf.text.slice(at), leaf, lang, body));
+  return parts.join("");
+}
+
+function paragraphXml(
+  block: TextBlockElement,
+  path: Path,
+  body: BodyContext,
+  numId: number | null
+): string {
+  const style =
+    block.type === "heading"
+      ? `Heading${block.level === 1 ? 1 : 2}`
+      : block.type === "block-quote"
+        ? "Quote"
+        : block.type === "list-item"
+          ? "ListParagraph"
+          : null;
+  const props = [
+    style ? `<w:pStyle w:val="${style}"/>` : "",
+    numId !== null ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>` : "",
+  ].join("");
+  const runs = block.children
+    .map((child, i) => {
+      if (!Text.isText(child)) return "";
+      return leafXml(child, body.edgesAt.get(path.concat(i).join(",")) ?? [], body.languageOf(block), body);
+    })
+    .join("");
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+// Every text block with its path, looking inside lists.
+function blockPaths(nodes: Descendant[]): Array<{ block: TextBlockElement; path: Path }> {
+  return nodes.flatMap((node, i) => {
+    if (isTextBlock(node)) return [{ block: node, path: [i] }];
+    if (isList(node)) return blockPaths(node.children).map(({ block, path }) => ({ block, path: [i, ...path] }));
+    return [];
+  });
+}
+
+/**
+ * Comment edges per text leaf (keyed by path). Suggestions whose range no longer points at
+ * text in `nodes` are left out; the rest are numbered in document order.
+ */
+function placeComments(nodes: Descendant[], suggestions: Suggestion[]) {
+  const leaves = new Map<string, number>();
+  for (const { block, path } of blockPaths(nodes)) {
+    block.children.forEach((child, i) => {
+      if (Text.isText(child)) leaves.set(path.concat(i).join(","), child.text.length);
+    });
+  }
+  const fits = (point: { path: Path; offset: number }) => {
+    const length = leaves.get(point.path.join(","));
+    return length !== undefined && point.offset <= length;
+  };
+
+  const placed: Array<{ id: number; suggestion: Suggestion }> = [];
+  const edgesAt = new Map<string, CommentEdge[]>();
+  const add = (key: string, edge: CommentEdge) => {
+    if (!edgesAt.has(key)) edgesAt.set(key, []);
+    edgesAt.get(key)!.push(edge);
+  };
+  for (const suggestion of [...suggestions].sort(compareSuggestions)) {
+    const [start, end] = Range.edges(suggestion.range);
+    if (!fits(start) || !fits(end)) continue;
+    const id = placed.length;
+    placed.push({ id, suggestion });
+    add(start.path.join(","), { offset: start.offset, id, start: true });
+    add(end.path.join(","), { offset: end.offset, id, start: false });
+  }
+  // By offset; at the same offset, close earlier comments before opening new ones, but
+  // an empty range still opens before it closes.
+  for (const edges of edgesAt.values()) {
+    edges.sort((a, b) => a.offset - b.offset || (a.id === b.id ? (a.start ? -1 : 1) : a.start ? 1 : -1));
+  }
+  return { placed, edgesAt };
+}
+
+/**
+ * The document as a Word file, in standard manuscript format: headings as Heading 1/2
+ * (chapters start a page), block quotes in the Quote style, real bulleted and numbered
+ * lists, and centered "#" scene breaks. Dialogue stays inside its paragraph, as
+ * manuscripts set it. Tracked changes become Word revisions. With `comments`, each pending
+ * suggestion becomes a Word comment on the text it flags.
+ */
+export function serializeDocx(nodes: Descendant[], options: DocxOptions = {}): Uint8Array<ArrayBuffer> {
+  const { comments = [], language = "en", author = "Grammar checker" } = options;
+  const { placed, edgesAt } = placeComments(nodes, comments);
+  // "auto" isn't a language Word knows: the document gets what its text reads as, and a
+  // paragraph that reads as something else is marked, as the checker detects them.
+  const auto = language === AUTO_LANGUAGE;
+  const text = blockPaths(nodes).map(({ block }) => acceptedText(block)).join("\n");
+  const documentLanguage = auto ? detectLanguage(text) : language;
+  const languageOf = (block: TextBlockElement) => {
+    if (block.lang || !auto) return block.lang;
+    const detected = detectLanguage(acceptedText(block));
+    return detected && detected !== documentLanguage ? detected : undefined;
+  };
+  // Revision ids start after the comment ids.
+  const context: BodyContext = { edgesAt, nextRevisionId: placed.length, languageOf };
+
+  const body: string[] = [];
+  let numberedLists = 0;
+  nodes.forEach((node, i) => {
+    if (isTextBlock(node)) {
+      body.push(paragraphXml(node, [i], context, null));
+    } else if (isList(node)) {
+      const numId = node.type === "numbered-list" ? 2 + numberedLists++ : 1;
+      node.children.forEach((item, j) => {
+        if (isTextBlock(item)) body.push(paragraphXml(item, [i, j], context, numId));
+      });
+    } else if (SlateElement.isElement(node) && node.type === "scene-break") {
+      body.push(`<w:p><w:pPr><w:pStyle w:val="SceneBreak"/></w:pPr><w:r><w:t>#</w:t></w:r></w:p>`);
+    }
+  });
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}">
+<w:body>
+${body.join("\n")}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>\
+<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>\
+</w:sectPr>
+</w:body>
+</w:document>`;
+
+  const hasComments = placed.length > 0;
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES(hasComments) },
+    { name: "_rels/.rels", data: PACKAGE_RELS },
+    { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS(hasComments) },
+    { name: "word/document.xml", data: document },
+    { name: "word/styles.xml", data: STYLES(documentLanguage) },
+    { name: "word/numbering.xml", data: numberingXml(numberedLists) },
+    ...(hasComments ? [{ name: "word/comments.xml", data: commentsXml(placed, author) }] : []),
+  ]);
+}
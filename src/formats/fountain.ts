@@ -0,0 +1,240 @@
+import { Descendant, Element as SlateElement, Node, Text } from "slate";
+import { attributePronouns, findMentions } from "../characters";
+import { CorefContext } from "../nlp/coreference";
+import { segmentDialogue } from "../nlp/dialogue";
+import { CustomText, isList, isTextBlock, textBlocks, TextBlockElement } from "../richText";
+import { Character } from "../suggestions";
+
+// ------------------------- Fountain screenplay ----------------------------
+
+// Verbs that make narration next to a quote a dialogue tag ("Anna said", "asked Tom").
+const SPEECH_VERBS = [
+  "said", "says", "asked", "asks", "replied", "replies", "answered", "answers", "whispered", "whispers",
+  "shouted", "shouts", "yelled", "yells", "called", "calls", "cried", "cries", "muttered", "mutters",
+  "murmured", "murmurs", "added", "adds", "continued", "continues", "snapped", "snaps", "told", "tells",
+  "insisted", "insists", "explained", "explains", "admitted", "admits", "repeated", "repeats",
+].join("|");
+const SPEAKER = "([\\p{L}'’-]+(?:\\s+\\p{Lu}[\\p{L}'’-]*)?)";
+// After the quote: “…,” Anna said / “…,” said Anna.
+const TAG_AFTER = new RegExp(
+  `^[\\s,.;:!?—–-]*(?:${SPEAKER}\\s+(?:${SPEECH_VERBS})|(?:${SPEECH_VERBS})\\s+${SPEAKER})\\b`,
+  "u"
+);
+// Before the quote: Anna said, “…”
+const TAG_BEFORE = new RegExp(`${SPEAKER}\\s+(?:${SPEECH_VERBS})[\\s,:]*$`, "u");
+
+const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+
+type Marks = Pick<CustomText, "bold" | "italic" | "underline">;
+
+// Fountain emphasis: *italic*, **bold**, _underline_. Edge whitespace stays outside the markers.
+function emphasize(text: string, marks: Marks): string {
+  const escaped = text.replace(/([\\*_])/g, "\\$1");
+  const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(escaped)!;
+  if (!core) return escaped;
+  let out = core;
+  if (marks.bold && marks.italic) out = `***${out}***`;
+  else if (marks.bold) out = `**${out}**`;
+  else if (marks.italic) out = `*${out}*`;
+  if (marks.underline) out = `_${out}_`;
+  return lead + out + trail;
+}
+
+// The block's text between two offsets, with its marks.
+function formatted(block: TextBlockElement, start: number, end: number): string {
+  let offset = 0;
+  let out = "";
+  for (const child of block.children) {
+    if (!Text.isText(child)) continue;
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + child.text.length);
+    if (from < to) out += emphasize(child.text.slice(from - offset, to - offset), child);
+    offset += child.text.length;
+  }
+  return out;
+}
+
+// Lines Fountain would read as something else (a scene heading, a character cue, a
+// transition or other markup) are forced to be action with "!".
+function actionLine(line: string): string {
+  const forced =
+    SCENE_HEADING.test(line) || /^[.!@#=>~\[]/.test(line) || (/\p{L}/u.test(line) && line === line.toUpperCase());
+  return forced ? `!${line}` : line;
+}
+
+function action(text: string): string | null {
+  const lines = text.split(/\n+/).map((line) => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines.map(actionLine).join("\n") : null;
+}
+
+function characterCue(name: string): string {
+  const cue = name.toUpperCase();
+  // Names in scripts without case can't be told from action by capitals alone.
+  return cue === name.toLowerCase() ? `@${cue}` : cue;
+}
+
+/**
+ * Who carries over between paragraphs: pronoun context, and who spoke last, most recent
+ * first, for untagged lines in an exchange.
+ */
+type SpeakerState = { context?: CorefContext; recent: string[] };
+
+type Piece = { kind: "action"; text: string } | { kind: "dialogue"; speaker: string | null; text: string };
+
+/**
+ * A prose paragraph as screenplay pieces: each quoted passage becomes dialogue and the
+ * narration around it action. Speakers come from dialogue tags ("Anna said", "said Tom",
+ * "she asked", with the pronoun resolved), then from a registered character the narration
+ * names ("Anna set down her cup. “Fine.”"). Narration that is only a tag is dropped.
+ */
+function paragraphPieces(block: TextBlockElement, characters: Character[], state: SpeakerState): Piece[] {
+  const text = Node.string(block);
+  const { passages } = segmentDialogue(text);
+  const attributed = attributePronouns(text, characters, { context: state.context });
+  state.context = attributed.context;
+  if (passages.length === 0) return [{ kind: "action", text: formatted(block, 0, text.length) }];
+
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const nameAt = (word: string, offset: number): string | null => {
+    const pronoun = attributed.pronouns.find((p) => p.offset === offset);
+    if (pronoun) {
+      if (pronoun.characterId) return byId.get(pronoun.characterId)?.name ?? null;
+      return pronoun.entityId?.startsWith("name:") ? pronoun.entityId.slice(5) : null;
+    }
+    return /^\p{Lu}/u.test(word) ? word : null;
+  };
+
+  // Narration before, between and after the passages.
+  const gaps = passages.map((p, i) => ({ start: i === 0 ? 0 : passages[i - 1].end, end: p.start }));
+  gaps.push({ start: passages[passages.length - 1].end, end: text.length });
+  // What is left of each gap as action once the tags are taken out; `subject` stands in
+  // for a dropped "X said, and …".
+  const kept = gaps.map((g) => ({ ...g, subject: "" }));
+
+  const tagSpeaker = (i: number): string | null => {
+    const after = gaps[i + 1];
+    const tagAfter = TAG_AFTER.exec(text.slice(after.start, after.end));
+    if (tagAfter) {
+      const word = tagAfter[1] ?? tagAfter[2];
+      const name = nameAt(word, after.start + tagAfter.index + tagAfter[0].indexOf(word));
+      if (name) {
+        const rest = after.start + tagAfter.index + tagAfter[0].length;
+        const and = /^[\s,;:]*and\s+/.exec(text.slice(rest, after.end));
+        kept[i + 1] = { ...kept[i + 1], start: rest + (and ? and[0].length : 0), subject: and ? word : "" };
+        return name;
+      }
+    }
+    const before = gaps[i];
+    const tagBefore = TAG_BEFORE.exec(text.slice(before.start, before.end));
+    if (tagBefore) {
+      const name = nameAt(tagBefore[1], before.start + tagBefore.index);
+      if (name) {
+        kept[i] = { ...kept[i], end: before.start + tagBefore.index };
+        return name;
+      }
+    }
+    return null;
+  };
+
+  const tagged = passages.map((_, i) => tagSpeaker(i));
+  const narration = gaps.map((g) => text.slice(g.start, g.end)).join(" ");
+  const mentioned = findMentions(narration, characters)[0];
+  // One paragraph, one speaker, unless its tags say otherwise.
+  const paragraphSpeaker =
+    tagged.find(Boolean) ?? (mentioned ? byId.get(mentioned.characterId)?.name ?? null : null);
+
+  const pieces: Piece[] = [];
+  const pushAction = (i: number) => {
+    const { start, end, subject } = kept[i];
+    // “…,” Tom said, and dropped his keys. → Tom dropped his keys.
+    const rest = formatted(block, start, end).replace(/^[\s,.;:!?—–-]+|[\s,;:—–-]+$/g, "");
+    if (!/[\p{L}\p{N}]/u.test(rest)) return;
+    const line = subject ? `${subject} ${rest}` : rest;
+    pieces.push({ kind: "action", text: line.replace(/\p{L}/u, (c) => c.toUpperCase()) });
+  };
+  passages.forEach((p, i) => {
+    pushAction(i);
+    const start = text.startsWith(p.open, p.start) ? p.start + p.open.length : p.start;
+    const end = p.close && text.slice(p.end - p.close.length, p.end) === p.close ? p.end - p.close.length : p.end;
+    // “Stop,” she said. → Stop.
+    const speech = formatted(block, start, end).replace(/^[\s,.;:—–-]+/, "").trim().replace(/,$/, ".");
+    if (speech) pieces.push({ kind: "dialogue", speaker: tagged[i] ?? paragraphSpeaker, text: speech });
+  });
+  pushAction(passages.length);
+  return pieces;
+}
+
+// Untagged lines in an exchange alternate between the last two speakers.
+function fallbackSpeaker(state: SpeakerState): string {
+  return state.recent[1] ?? state.recent[0] ?? "Unknown";
+}
+
+function remember(state: SpeakerState, speaker: string) {
+  state.recent = [speaker, ...state.recent.filter((s) => s !== speaker)].slice(0, 2);
+}
+
+/**
+ * The document as a Fountain screenplay. Chapter headings become sections (`# …`), scene
+ * headings scene headings (forced with "." unless they start with INT./EXT.), scene breaks
+ * "CUT TO:" transitions. In paragraphs, quoted speech becomes a character cue and its
+ * dialogue, attributed as described in `paragraphPieces`; the rest is action. Bold, italic
+ * and underline carry over as Fountain emphasis.
+ */
+export function serializeFountain(nodes: Descendant[], characters: Character[] = []): string {
+  const elements: string[] = [];
+  const state: SpeakerState = { recent: [] };
+  let dialogue = null as { speaker: string; lines: string[] } | null;
+
+  const flush = () => {
+    if (dialogue) elements.push(`${characterCue(dialogue.speaker)}\n${dialogue.lines.join(" ")}`);
+    dialogue = null;
+  };
+  const pushAction = (text: string) => {
+    const block = action(text);
+    if (!block) return;
+    flush();
+    elements.push(block);
+  };
+
+  for (const node of nodes) {
+    if (isTextBlock(node) && node.type === "heading") {
+      flush();
+      const title = Node.string(node).trim();
+      if (!title) continue;
+      state.recent = [];
+      if (node.level === 1) elements.push(`# ${title}`);
+      else elements.push(SCENE_HEADING.test(title) ? title.toUpperCase() : `.${title.toUpperCase()}`);
+    } else if (isTextBlock(node) && node.type === "paragraph") {
+      for (const piece of paragraphPieces(node, characters, state)) {
+        if (piece.kind === "action") {
+          pushAction(piece.text);
+          continue;
+        }
+        const speaker = piece.speaker ?? fallbackSpeaker(state);
+        // An interrupted line (“I don’t,” she said, “think so.”) stays one speech.
+        if (dialogue && dialogue.speaker === speaker) {
+          dialogue.lines.push(piece.text);
+        } else {
+          flush();
+          dialogue = { speaker, lines: [piece.text] };
+        }
+        remember(state, speaker);
+      }
+      flush();
+    } else if (isTextBlock(node)) {
+      pushAction(formatted(node, 0, Node.string(node).length));
+    } else if (isList(node)) {
+      const items = textBlocks(node.children).map((item, i) => {
+        const marker = node.type === "numbered-list" ? `${i + 1}.` : "-";
+        return `${marker} ${formatted(item, 0, Node.string(item).length)}`;
+      });
+      pushAction(items.join("\n"));
+    } else if (SlateElement.isElement(node) && node.type === "scene-break") {
+      flush();
+      state.recent = [];
+      elements.push("CUT TO:");
+    }
+  }
+  flush();
+  return elements.join("\n\n") + "\n";
+}
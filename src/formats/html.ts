@@ -0,0 +1,115 @@
+import { Descendant } from "slate";
+import { CustomText, ListElement, MarkFormat, TextBlockElement } from "../richText";
+
+// ------------------------- Pasted HTML ----------------------------
+
+type Marks = Partial<Record<MarkFormat, true>>;
+
+const SKIPPED = new Set(["HEAD", "STYLE", "SCRIPT", "META", "TITLE", "TEMPLATE"]);
+const BLOCKS = new Set(["P", "DIV", "H1", "H2", "H3", "H4", "H5", "H6", "BLOCKQUOTE", "UL", "OL", "LI", "HR", "PRE", "SECTION", "ARTICLE", "HEADER", "FOOTER", "TABLE", "TR"]);
+
+// Tags and inline styles word processors use for marks. Google Docs wraps whole pastes in
+// <b style="font-weight:normal">, so the style wins over the tag.
+function marksOf(element: HTMLElement, inherited: Marks): Marks {
+  const marks = { ...inherited };
+  const { fontWeight, fontStyle, textDecoration, textDecorationLine } = element.style;
+  const tag = element.tagName;
+  if (tag === "B" || tag === "STRONG" || Number(fontWeight) >= 600 || fontWeight === "bold") marks.bold = true;
+  if (fontWeight === "normal" || (Number(fontWeight) > 0 && Number(fontWeight) < 600)) delete marks.bold;
+  if (tag === "I" || tag === "EM" || fontStyle === "italic") marks.italic = true;
+  if (fontStyle === "normal") delete marks.italic;
+  if (tag === "U" || `${textDecoration} ${textDecorationLine}`.includes("underline")) marks.underline = true;
+  return marks;
+}
+
+function headingLevel(tag: string): 1 | 2 | null {
+  if (!/^H[1-6]$/.test(tag)) return null;
+  return tag === "H1" ? 1 : 2;
+}
+
+/**
+ * Pasted HTML → document blocks: paragraphs, headings (h1 a chapter, h2–h6 a scene), block
+ * quotes, lists, `<hr>` as a scene break, and bold/italic/underline from tags or inline
+ * styles. Everything else contributes its text.
+ */
+export function parseHtml(html: string): Descendant[] {
+  const body = new DOMParser().parseFromString(html, "text/html").body;
+  const blocks: Descendant[] = [];
+  let current: { block: TextBlockElement; leaves: CustomText[] } | null = null;
+  let list: ListElement | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const { block, leaves } = current;
+    current = null;
+    // Trim the block's edges, which HTML whitespace leaves behind.
+    if (leaves.length > 0) {
+      leaves[0].text = leaves[0].text.replace(/^\s+/, "");
+      leaves[leaves.length - 1].text = leaves[leaves.length - 1].text.replace(/\s+$/, "");
+    }
+    const children = leaves.filter((l) => l.text);
+    if (children.length === 0) return;
+    block.children = children;
+    if (block.type === "list-item" && list) list.children.push(block);
+    else blocks.push(block);
+  };
+  const start = (type: TextBlockElement["type"], extra: Partial<TextBlockElement> = {}) => {
+    finish();
+    current = { block: { type, ...extra, children: [] }, leaves: [] };
+  };
+  const append = (text: string, marks: Marks) => {
+    current ??= { block: { type: list ? "list-item" : "paragraph", children: [] }, leaves: [] };
+    const last = current.leaves[current.leaves.length - 1];
+    const same = last && (["bold", "italic", "underline"] as MarkFormat[]).every((m) => !!last[m] === !!marks[m]);
+    if (same) last.text += text;
+    else current.leaves.push({ text, ...marks });
+  };
+
+  const walk = (node: globalThis.Node, marks: Marks, quote: boolean, pre: boolean) => {
+    if (node.nodeType === 3) {
+      const text = pre ? node.textContent ?? "" : (node.textContent ?? "").replace(/\s+/g, " ");
+      // Whitespace between blocks is not text.
+      if (!current && !text.trim()) return;
+      append(text, marks);
+      return;
+    }
+    if (!(node instanceof HTMLElement) || SKIPPED.has(node.tagName)) return;
+    const tag = node.tagName;
+    const inner = marksOf(node, marks);
+
+    if (tag === "BR") {
+      append("\n", marks);
+      return;
+    }
+    if (tag === "HR") {
+      finish();
+      blocks.push({ type: "scene-break", children: [{ text: "" }] });
+      return;
+    }
+    if (tag === "UL" || tag === "OL") {
+      finish();
+      const outer = list;
+      // Nested lists are flattened into the outermost one.
+      list ??= { type: tag === "OL" ? "numbered-list" : "bulleted-list", children: [] };
+      node.childNodes.forEach((child) => walk(child, inner, quote, pre));
+      finish();
+      if (!outer && list.children.length > 0) blocks.push(list);
+      list = outer;
+      return;
+    }
+
+    const block = BLOCKS.has(tag);
+    if (block) {
+      const level = headingLevel(tag);
+      if (level) start("heading", { level });
+      else if (tag === "LI" && list) start("list-item");
+      else start(quote || tag === "BLOCKQUOTE" ? "block-quote" : "paragraph");
+    }
+    node.childNodes.forEach((child) => walk(child, inner, quote || tag === "BLOCKQUOTE", pre || tag === "PRE"));
+    if (block) finish();
+  };
+
+  body.childNodes.forEach((child) => walk(child, {}, false, false));
+  finish();
+  return blocks;
+}
@@ -0,0 +1,141 @@
+import { Descendant } from "slate";
+import { describe, expect, it } from "vitest";
+import { CustomText } from "../richText";
+import { parseMarkdown, serializeMarkdown } from "./markdown";
+
+const paragraph = (...children: CustomText[]): Descendant => ({ type: "paragraph", children });
+
+function roundTrip(nodes: Descendant[]) {
+  return parseMarkdown(serializeMarkdown(nodes));
+}
+
+describe("markdown round-trip", () => {
+  it("keeps chapter and scene headings", () => {
+    const nodes: Descendant[] = [
+      { type: "heading", level: 1, children: [{ text: "Chapter One" }] },
+      { type: "heading", level: 2, children: [{ text: "The Harbour" }] },
+    ];
+    expect(serializeMarkdown(nodes)).toBe("# Chapter One\n\n## The Harbour\n");
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps a heading that ends in a #", () => {
+    const nodes: Descendant[] = [
+      { type: "heading", level: 1, children: [{ text: "C #" }] },
+      { type: "heading", level: 2, children: [{ text: "Take ##" }] },
+      { type: "heading", level: 2, children: [{ text: "#" }] },
+    ];
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps bold, italic and underline", () => {
+    const nodes = [
+      paragraph(
+        { text: "Plain, " },
+        { text: "bold", bold: true },
+        { text: ", " },
+        { text: "italic", italic: true },
+        { text: ", " },
+        { text: "both", bold: true, italic: true },
+        { text: " and " },
+        { text: "underlined", underline: true },
+        { text: "." }
+      ),
+    ];
+    expect(serializeMarkdown(nodes)).toBe("Plain, **bold**, *italic*, ***both*** and <u>underlined</u>.\n");
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps adjacent runs with different marks apart", () => {
+    const cases: CustomText[][] = [
+      [{ text: "foo", bold: true }, { text: "bar", italic: true }],
+      [{ text: "foo", italic: true }, { text: "bar", bold: true }],
+      [{ text: "bold", bold: true }, { text: "bolditalic", bold: true, italic: true }],
+      [{ text: "italic", italic: true }, { text: "bolditalic", bold: true, italic: true }, { text: "tail" }],
+      [{ text: "bolditalic", bold: true, italic: true }, { text: "italic", italic: true }],
+      [{ text: "bolditalic", bold: true, italic: true }, { text: "bold", bold: true }, { text: "italic", italic: true }],
+      [{ text: "under", underline: true }, { text: "both", underline: true, bold: true }, { text: "bold", bold: true }],
+      [{ text: "a" }, { text: "b", bold: true }, { text: "c" }],
+    ];
+    for (const children of cases) {
+      const nodes = [paragraph(...children)];
+      expect(roundTrip(nodes), serializeMarkdown(nodes)).toEqual(nodes);
+    }
+  });
+
+  it("moves whitespace at the edge of a formatted run outside it", () => {
+    const nodes = [paragraph({ text: "one " }, { text: " two ", bold: true }, { text: "three" })];
+    expect(serializeMarkdown(nodes)).toBe("one  **two** three\n");
+    expect(roundTrip(nodes)).toEqual([paragraph({ text: "one  " }, { text: "two", bold: true }, { text: " three" })]);
+  });
+
+  it("keeps block quotes", () => {
+    const nodes: Descendant[] = [
+      { type: "block-quote", children: [{ text: "All happy families are alike." }] },
+      paragraph({ text: "After the quote." }),
+    ];
+    expect(serializeMarkdown(nodes)).toBe("> All happy families are alike.\n\nAfter the quote.\n");
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps bulleted and numbered lists", () => {
+    const nodes: Descendant[] = [
+      {
+        type: "bulleted-list",
+        children: [
+          { type: "list-item", children: [{ text: "milk" }] },
+          { type: "list-item", children: [{ text: "eggs", italic: true }] },
+        ],
+      },
+      {
+        type: "numbered-list",
+        children: [
+          { type: "list-item", children: [{ text: "first" }] },
+          { type: "list-item", children: [{ text: "second" }] },
+        ],
+      },
+    ];
+    expect(serializeMarkdown(nodes)).toBe("- milk\n- *eggs*\n\n1. first\n2. second\n");
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps scene breaks", () => {
+    const nodes: Descendant[] = [
+      paragraph({ text: "Before." }),
+      { type: "scene-break", children: [{ text: "" }] },
+      paragraph({ text: "After." }),
+    ];
+    expect(serializeMarkdown(nodes)).toBe("Before.\n\n* * *\n\nAfter.\n");
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("escapes text that would read as Markdown", () => {
+    const nodes = [
+      paragraph({ text: "# not a heading" }),
+      paragraph({ text: "> not a quote" }),
+      paragraph({ text: "- not a list" }),
+      paragraph({ text: "1. not a list either" }),
+      paragraph({ text: "***" }),
+      paragraph({ text: "~~~ not a fence" }),
+      paragraph({ text: "``` nor this" }),
+      paragraph({ text: "Tom &amp; Jerry, &#32;" }),
+      paragraph({ text: "2*3*4 = 24, snake_case, [brackets], `ticks`, <u>tag</u> and a \\ backslash" }),
+    ];
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps line breaks within a paragraph", () => {
+    const nodes = [paragraph({ text: "Roses are red,\nviolets are " }, { text: "blue", italic: true })];
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+
+  it("keeps whitespace at the start and end of lines", () => {
+    const nodes: Descendant[] = [
+      paragraph({ text: "    Indented, and a trailing space " }),
+      paragraph({ text: "\tTabbed,  \n  second line " }, { text: "bold", bold: true }),
+      { type: "block-quote", children: [{ text: " quoted " }] },
+      paragraph({ text: "   " }),
+    ];
+    expect(roundTrip(nodes)).toEqual(nodes);
+  });
+});
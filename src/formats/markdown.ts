@@ -0,0 +1,370 @@
+import { Descendant, Element as SlateElement, Text } from "slate";
+import { CustomText, isList, isTextBlock, ListElement, MarkFormat, TextBlockElement, textBlocks } from "../richText";
+
+// ------------------------- Markdown ----------------------------
+
+// Serialized outermost first, so "***both***" opens bold before italic and closes it after.
+const MARK_ORDER: MarkFormat[] = ["underline", "bold", "italic"];
+const OPEN: Record<MarkFormat, string> = { underline: "<u>", bold: "**", italic: "*" };
+const CLOSE: Record<MarkFormat, string> = { underline: "</u>", bold: "**", italic: "*" };
+
+const THEMATIC_BREAK = /^ {0,3}([*_-])(?: *\1){2,} *$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^ {0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+
+// ---- Serializing ----
+
+function escapeInline(text: string) {
+  // "&" only where it would start a character reference.
+  return text.replace(/[\\*_`<[\]]|&(?=#?\w+;)/g, "\\$&");
+}
+
+// Markers at the start of a line that would make it something other than text.
+function escapeLineStart(line: string) {
+  if (THEMATIC_BREAK.test(line)) return `\\${line}`;
+  return line.replace(/^(\s*)(#|>|~~~|[-+](?=\s))/, "$1\\$2").replace(/^(\s*\d+)([.)])(?=\s)/, "$1\\$2");
+}
+
+function flattenLeaves(children: Descendant[]): CustomText[] {
+  return children.flatMap((child) => (Text.isText(child) ? [child] : flattenLeaves(child.children)));
+}
+
+/**
+ * A block's leaves as inline Markdown. A mark stays open across neighbouring leaves that
+ * share it, so "**bold *both***" keeps its delimiters apart; only marks that end are closed
+ * and only marks that start are opened where two leaves meet.
+ */
+function serializeLeaves(children: Descendant[]): string {
+  let out = "";
+  const open: MarkFormat[] = [];
+  // Whitespace not written yet: emphasis can't open before or close after it, so it goes
+  // outside any delimiters at the next change of marks.
+  let space = "";
+  for (const leaf of flattenLeaves(children)) {
+    const [, lead, body, trail] = leaf.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    space += lead;
+    if (!body) continue;
+    const closing = open.filter((m) => !leaf[m]);
+    const opening = MARK_ORDER.filter((m) => leaf[m] && !open.includes(m));
+    out += [...closing].reverse().map((m) => CLOSE[m]).join("");
+    out += space.replace(/\n/g, "\\\n");
+    out += opening.map((m) => OPEN[m]).join("");
+    open.splice(0, open.length, ...open.filter((m) => leaf[m]), ...opening);
+    out += escapeInline(body).replace(/\n/g, "\\\n");
+    space = trail;
+  }
+  out += [...open].reverse().map((m) => CLOSE[m]).join("") + space;
+  return out.split("\n").map(keepEdgeSpace).join("\n");
+}
+
+// Whitespace at either end of a line is trimmed when read back, so it is written as
+// character references ("&#32;"); a trailing backslash (a hard break) stays last.
+function keepEdgeSpace(line: string) {
+  const references = (space: string) => [...space].map((c) => `&#${c.codePointAt(0)};`).join("");
+  return line.replace(/^[^\S\n]+|[^\S\n]+(?=\\?$)/g, references);
+}
+
+function serializeBlock(block: TextBlockElement): string {
+  const text = serializeLeaves(block.children);
+  switch (block.type) {
+    case "heading":
+      // A trailing " #" would be read back as a closing sequence and dropped.
+      return `${"#".repeat(block.level ?? 1)} ${text.replace(/\\\n/g, " ").replace(/(^|\s)#(#*\s*)$/, "$1\\#$2")}`;
+    case "block-quote":
+      return text.split("\n").map((line) => `> ${line}`).join("\n");
+    default:
+      return text.split("\n").map(escapeLineStart).join("\n");
+  }
+}
+
+/**
+ * The document as Markdown: `#`/`##` for chapter and scene headings, `>` for block quotes,
+ * `-`/`1.` lists, `* * *` for scene breaks, `**bold**`, `*italic*` and `<u>underline</u>`
+ * (Markdown has no underline of its own). `parseMarkdown` reads it back unchanged, except
+ * that whitespace at the edge of a formatted run moves outside it.
+ */
+export function serializeMarkdown(nodes: Descendant[]): string {
+  const blocks: string[] = [];
+  for (const node of nodes) {
+    if (isList(node)) {
+      const items = textBlocks(node.children).map((item, i) => {
+        const marker = node.type === "numbered-list" ? `${i + 1}. ` : "- ";
+        // Continuation lines are indented to stay in the item.
+        return marker + serializeLeaves(item.children).replace(/\n/g, `\n${" ".repeat(marker.length)}`);
+      });
+      blocks.push(items.join("\n"));
+    } else if (isTextBlock(node)) {
+      blocks.push(serializeBlock(node));
+    } else if (SlateElement.isElement(node) && node.type === "scene-break") {
+      blocks.push("* * *");
+    }
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+// ---- Parsing ----
+
+// `run` numbers the delimiter run ("***", "<u>") a delimiter came from.
+type Delimiter = { mark: MarkFormat; text: string; canOpen: boolean; canClose: boolean; run: number };
+type Piece = string | Delimiter;
+
+function isSpace(c: string | undefined) {
+  return c === undefined || /\s/.test(c);
+}
+
+/**
+ * Split a line of inline Markdown into literal text and emphasis delimiters. Links and
+ * code spans are reduced to their text, numeric character references are decoded; other
+ * inline HTML stays literal.
+ */
+function tokenizeInline(source: string): Piece[] {
+  const pieces: Piece[] = [];
+  let i = 0;
+  let runs = 0;
+  const literal = (text: string) => {
+    if (typeof pieces[pieces.length - 1] === "string") pieces[pieces.length - 1] += text;
+    else pieces.push(text);
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "\\" && i + 1 < source.length && /[!-/:-@[-`{-~\n]/.test(source[i + 1])) {
+      literal(source[i + 1]);
+      i += 2;
+      continue;
+    }
+    const reference = c === "&" ? /^&#(?:(\d{1,7})|[xX]([\da-fA-F]{1,6}));/.exec(source.slice(i)) : null;
+    if (reference) {
+      const point = reference[1] ? parseInt(reference[1], 10) : parseInt(reference[2], 16);
+      literal(point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : "\ufffd");
+      i += reference[0].length;
+      continue;
+    }
+    const code = c === "`" ? /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(source.slice(i)) : null;
+    if (code) {
+      literal(code[2].trim() || code[2]);
+      i += code[0].length;
+      continue;
+    }
+    const link = c === "[" || (c === "!" && source[i + 1] === "[") ? /^!?\[([^\]]*)\]\([^)]*\)/.exec(source.slice(i)) : null;
+    if (link) {
+      pieces.push(...tokenizeInline(c === "!" ? "" : link[1]));
+      i += link[0].length;
+      continue;
+    }
+    const tag = /^<(\/?)u>/i.exec(source.slice(i));
+    if (tag) {
+      pieces.push({ mark: "underline", text: tag[0], canOpen: !tag[1], canClose: !!tag[1], run: runs++ });
+      i += tag[0].length;
+      continue;
+    }
+    if (c === "*" || c === "_") {
+      let end = i;
+      while (source[end] === c) end++;
+      const before = source[i - 1];
+      const after = source[end];
+      let canOpen = !isSpace(after);
+      let canClose = !isSpace(before);
+      // "snake_case" and "2*3*4": intraword underscores are literal.
+      if (c === "_" && /[\p{L}\p{N}]/u.test(before ?? "") && /[\p{L}\p{N}]/u.test(after ?? "")) canOpen = canClose = false;
+      if (!canOpen && !canClose) {
+        literal(source.slice(i, end));
+        i = end;
+        continue;
+      }
+      // A run of three is bold and italic.
+      const length = end - i;
+      const marks: MarkFormat[] = length === 1 ? ["italic"] : length === 2 ? ["bold"] : ["bold", "italic"];
+      const run = runs++;
+      for (const mark of marks) pieces.push({ mark, text: c.repeat(mark === "bold" ? 2 : 1), canOpen, canClose, run });
+      if (length > 3) literal(c.repeat(length - 3));
+      i = end;
+      continue;
+    }
+    literal(c);
+    i++;
+  }
+  return pieces;
+}
+
+/**
+ * Inline Markdown → leaves. Each delimiter closes the latest open one of its mark; within
+ * a run, delimiters that can close do so before the rest open ("**a***b*" is bold "a",
+ * italic "b"). Any left unpaired are kept as text.
+ */
+function parseInline(source: string): CustomText[] {
+  const pieces = tokenizeInline(source);
+  const paired = new Set<number>();
+  const open: number[] = [];
+  const openerOf = (piece: Delimiter) =>
+    piece.canClose ? [...open].reverse().find((j) => (pieces[j] as Delimiter).mark === piece.mark) : undefined;
+  for (let start = 0; start < pieces.length; ) {
+    const first = pieces[start];
+    let end = start + 1;
+    if (typeof first === "string") {
+      start = end;
+      continue;
+    }
+    while (end < pieces.length && (pieces[end] as Delimiter).run === first.run) end++;
+    const run = pieces.slice(start, end).map((piece, k) => ({ piece: piece as Delimiter, i: start + k }));
+    // Innermost first: the delimiter whose opener is latest closes first.
+    const closing = run
+      .map((d) => ({ ...d, opener: openerOf(d.piece) }))
+      .filter((d): d is typeof d & { opener: number } => d.opener !== undefined)
+      .sort((a, b) => b.opener - a.opener);
+    for (const { i, opener } of closing) {
+      open.splice(open.indexOf(opener), 1);
+      paired.add(opener).add(i);
+    }
+    for (const { piece, i } of run) {
+      if (!paired.has(i) && piece.canOpen) open.push(i);
+    }
+    start = end;
+  }
+
+  const leaves: CustomText[] = [];
+  const active = new Set<MarkFormat>();
+  const push = (text: string) => {
+    if (!text) return;
+    const marks = Object.fromEntries([...active].map((m) => [m, true])) as Partial<Record<MarkFormat, true>>;
+    const last = leaves[leaves.length - 1];
+    if (last && MARK_ORDER.every((m) => !!last[m] === active.has(m))) last.text += text;
+    else leaves.push({ text, ...marks });
+  };
+  pieces.forEach((piece, i) => {
+    if (typeof piece === "string") push(piece);
+    else if (!paired.has(i)) push(piece.text);
+    else if (active.has(piece.mark)) active.delete(piece.mark);
+    else active.add(piece.mark);
+  });
+  return leaves.length > 0 ? leaves : [{ text: "" }];
+}
+
+// Joined lines of one block: a trailing backslash or two spaces is a hard break.
+function joinLines(lines: string[]) {
+  return lines
+    .map((line, i) => {
+      if (i === lines.length - 1) return line.trim();
+      const hard = /(\\| {2,})$/.test(line);
+      return line.trim().replace(/\\$/, "") + (hard ? "\\\n" : " ");
+    })
+    .join("")
+    .trim();
+}
+
+function textBlock(type: TextBlockElement["type"], lines: string[], extra: Partial<TextBlockElement> = {}): TextBlockElement {
+  return { type, ...extra, children: parseInline(joinLines(lines)) };
+}
+
+/**
+ * Markdown → document blocks. Headings deeper than `##` become scene headings; fenced
+ * code keeps its lines as a plain paragraph; anything else unsupported is read as text.
+ */
+export function parseMarkdown(markdown: string): Descendant[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Descendant[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { element: ListElement; item: string[] } | null = null;
+
+  const flushItem = () => {
+    if (list && list.item.length > 0) list.element.children.push(textBlock("list-item", list.item));
+    if (list) list.item = [];
+  };
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(textBlock("paragraph", paragraph));
+    if (quote.length > 0) blocks.push(textBlock("block-quote", quote));
+    flushItem();
+    if (list && list.element.children.length > 0) blocks.push(list.element);
+    paragraph = [];
+    quote = [];
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flush();
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence)) code.push(lines[i]);
+      blocks.push({ type: "paragraph", children: [{ text: code.join("\n") }] });
+      continue;
+    }
+    if (!line.trim()) {
+      // A blank line ends everything but a list, whose next item may follow after it.
+      if (list) {
+        flushItem();
+        const next = lines.slice(i + 1).find((l) => l.trim());
+        const marker = next && LIST_ITEM.exec(next)?.[1];
+        const numbered = !!marker && /\d/.test(marker);
+        if (marker && numbered === (list.element.type === "numbered-list")) continue;
+      }
+      flush();
+      continue;
+    }
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      blocks.push({ type: "scene-break", children: [{ text: "" }] });
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push(textBlock("heading", [heading[2] ?? ""], { level: heading[1].length === 1 ? 1 : 2 }));
+      continue;
+    }
+    const quoted = QUOTE.exec(line);
+    if (quoted) {
+      if (quote.length === 0) flush();
+      // "> " on its own separates two quotes.
+      if (!quoted[1].trim()) {
+        flush();
+        continue;
+      }
+      quote.push(quoted[1]);
+      continue;
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const type = /\d/.test(item[1]) ? "numbered-list" : "bulleted-list";
+      if (!list || list.element.type !== type) {
+        flush();
+        list = { element: { type, children: [] }, item: [] };
+      }
+      flushItem();
+      list.item.push(item[2]);
+      continue;
+    }
+    if (list) {
+      // Continuation of the current item (indented, or a lazy line right after it).
+      if (/^\s/.test(line) || list.item.length > 0) {
+        list.item.push(line);
+        continue;
+      }
+      flush();
+    }
+    if (quote.length > 0) {
+      quote.push(line); // lazy continuation
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flush();
+
+  return blocks.length > 0 ? blocks : [{ type: "paragraph", children: [{ text: "" }] }];
+}
+
+/**
+ * Whether pasted plain text is worth reading as Markdown rather than as lines of text.
+ */
+export function looksLikeMarkdown(text: string): boolean {
+  return (
+    /^ {0,3}(#{1,6}\s|>|[-*+]\s|\d{1,9}[.)]\s)/m.test(text) ||
+    /(\*\*|__)\S[\s\S]*?\S?\1|<u>[\s\S]*?<\/u>/.test(text) ||
+    /^ {0,3}([*_-])(?: *\1){2,} *$/m.test(text)
+  );
+}
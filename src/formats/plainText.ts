@@ -0,0 +1,49 @@
+import { Descendant, Element as SlateElement, Node } from "slate";
+import { isList, isTextBlock, textBlocks } from "../richText";
+
+// ------------------------- Plain text ----------------------------
+
+const SCENE_BREAK = /^\s*(?:\*\s*){3,}$|^\s*#\s*$/;
+
+/**
+ * The document as plain text, one blank line between blocks. Formatting is dropped, but
+ * list markers, indented block quotes and "* * *" scene breaks keep the structure visible.
+ */
+export function serializePlainText(nodes: Descendant[]): string {
+  const blocks: string[] = [];
+  for (const node of nodes) {
+    if (isList(node)) {
+      const items = textBlocks(node.children).map((item, i) => {
+        return `${node.type === "numbered-list" ? `${i + 1}.` : "-"} ${Node.string(item)}`;
+      });
+      blocks.push(items.join("\n"));
+    } else if (isTextBlock(node)) {
+      const text = Node.string(node);
+      blocks.push(node.type === "block-quote" ? text.replace(/^/gm, "    ") : text);
+    } else if (SlateElement.isElement(node) && node.type === "scene-break") {
+      blocks.push("* * *");
+    }
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Plain text → paragraphs. With blank lines in it, those separate paragraphs and single
+ * line breaks are wrapping; without any, every line is a paragraph. "* * *" or a lone
+ * "#" is a scene break.
+ */
+export function parsePlainText(text: string): Descendant[] {
+  const normalized = text.replace(/\r\n?/g, "\n").trim();
+  const chunks = /\n\s*\n/.test(normalized)
+    ? normalized.split(/\n\s*\n/).map((chunk) => chunk.replace(/\s*\n\s*/g, " "))
+    : normalized.split("\n");
+
+  const blocks: Descendant[] = chunks
+    .filter((chunk) => chunk.trim())
+    .map((chunk) =>
+      SCENE_BREAK.test(chunk)
+        ? { type: "scene-break", children: [{ text: "" }] }
+        : { type: "paragraph", children: [{ text: chunk.trim() }] }
+    );
+  return blocks.length > 0 ? blocks : [{ type: "paragraph", children: [{ text: "" }] }];
+}
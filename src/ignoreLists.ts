@@ -0,0 +1,133 @@
+import { Editor, Range } from "slate";
+import { isParagraph } from "./documentStore";
+import { ProviderMatch } from "./providers";
+import { readJSON, STORAGE_PREFIX, writeJSON } from "./storage";
+import { Suggestion } from "./suggestions";
+import { acceptedText } from "./trackChanges";
+
+// ------------------------- Dictionary + ignore lists ----------------------------
+
+/**
+ * One "Ignore" click. Identified by rule, text and a little surrounding context so it
+ * survives re-checks and edits elsewhere, but not a rewrite of the sentence around it.
+ */
+export type IgnoredOccurrence = {
+  ruleId?: string;
+  original: string;
+  context: string;
+};
+
+export type IgnoreLists = {
+  dictionary: string[]; // global: words the user marked as correct
+  disabledRules: string[]; // global: rule ids switched off
+  ignoredOccurrences: IgnoredOccurrence[]; // per document
+};
+
+// The editor holds a single document for now; ignored occurrences are stored under its id.
+export const DOCUMENT_ID = "default";
+
+const CONTEXT_CHARS = 20;
+
+export function getOccurrenceContext(text: string, offset: number, length: number): string {
+  const before = text.slice(Math.max(0, offset - CONTEXT_CHARS), offset);
+  const after = text.slice(offset + length, offset + length + CONTEXT_CHARS);
+  return `${before}\u0000${after}`;
+}
+
+/**
+ * The occurrence an "Ignore" click on `s` should record, or null if its paragraph is gone.
+ */
+export function getSuggestionOccurrence(editor: Editor, s: Suggestion): IgnoredOccurrence | null {
+  const start = Range.start(s.range);
+  const entry = Editor.above(editor, { at: start, match: (n) => isParagraph(n) });
+  if (!entry) return null;
+  const [paragraph, path] = entry;
+  // Offsets into the text the checker saw, with tracked changes accepted.
+  const before = Editor.fragment(editor, { anchor: Editor.start(editor, path), focus: start });
+  const offset = before.map(acceptedText).join("").length;
+  return {
+    ruleId: s.ruleId,
+    original: s.original,
+    context: getOccurrenceContext(acceptedText(paragraph), offset, s.original.length),
+  };
+}
+
+function occurrenceKey(o: IgnoredOccurrence) {
+  return `${o.ruleId ?? ""}\u0001${o.original}\u0001${o.context}`;
+}
+
+export function addOccurrence(lists: IgnoreLists, occurrence: IgnoredOccurrence): IgnoreLists {
+  const key = occurrenceKey(occurrence);
+  if (lists.ignoredOccurrences.some((o) => occurrenceKey(o) === key)) return lists;
+  return { ...lists, ignoredOccurrences: [...lists.ignoredOccurrences, occurrence] };
+}
+
+/**
+ * The filter step run after all providers: drops spelling matches on dictionary words,
+ * disabled rules and ignored occurrences from one paragraph's matches. A dictionary word
+ * still gets grammar, POV and narrative suggestions.
+ */
+export function filterIgnoredMatches(matches: ProviderMatch[], text: string, lists: IgnoreLists): ProviderMatch[] {
+  const dictionary = new Set(lists.dictionary.map((w) => w.toLowerCase()));
+  const disabledRules = new Set(lists.disabledRules);
+  const ignored = new Set(lists.ignoredOccurrences.map(occurrenceKey));
+
+  return matches.filter((m) => {
+    const original = text.slice(m.offset, m.offset + m.length);
+    if (m.ruleId && disabledRules.has(m.ruleId)) return false;
+    if (m.spelling && dictionary.has(original.trim().toLowerCase())) return false;
+    const context = getOccurrenceContext(text, m.offset, m.length);
+    return !ignored.has(occurrenceKey({ ruleId: m.ruleId, original, context }));
+  });
+}
+
+// ---- Persistence ----
+
+export function loadIgnoreLists(documentId: string): IgnoreLists {
+  const global = readJSON<Partial<IgnoreLists>>(`${STORAGE_PREFIX}:ignore`, {});
+  const occurrences = readJSON<IgnoredOccurrence[]>(`${STORAGE_PREFIX}:ignored:${documentId}`, []);
+  return {
+    dictionary: global.dictionary ?? [],
+    disabledRules: global.disabledRules ?? [],
+    ignoredOccurrences: occurrences,
+  };
+}
+
+export function saveIgnoreLists(documentId: string, lists: IgnoreLists) {
+  writeJSON(`${STORAGE_PREFIX}:ignore`, { dictionary: lists.dictionary, disabledRules: lists.disabledRules });
+  writeJSON(`${STORAGE_PREFIX}:ignored:${documentId}`, lists.ignoredOccurrences);
+}
+
+export function exportIgnoreLists(lists: IgnoreLists): string {
+  return JSON.stringify({ version: 1, ...lists }, null, 2);
+}
+
+function isIgnoredOccurrence(value: unknown): value is IgnoredOccurrence {
+  if (typeof value !== "object" || value === null) return false;
+  const o = value as Record<string, unknown>;
+  const ruleId = o.ruleId === undefined || typeof o.ruleId === "string";
+  return ruleId && typeof o.original === "string" && typeof o.context === "string";
+}
+
+/**
+ * Parse an exported file and merge it into `current`. Throws on malformed input.
+ */
+export function importIgnoreLists(json: string, current: IgnoreLists): IgnoreLists {
+  const data = JSON.parse(json);
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : []);
+  if (typeof data !== "object" || data === null) throw new Error("Expected a JSON object.");
+
+  const occurrences: IgnoredOccurrence[] = Array.isArray(data.ignoredOccurrences)
+    ? data.ignoredOccurrences.filter(isIgnoredOccurrence)
+    : [];
+  const seen = new Set(current.ignoredOccurrences.map(occurrenceKey));
+
+  return {
+    dictionary: [...new Set([...current.dictionary, ...strings(data.dictionary)])],
+    disabledRules: [...new Set([...current.disabledRules, ...strings(data.disabledRules)])],
+    ignoredOccurrences: [
+      ...current.ignoredOccurrences,
+      ...occurrences.filter((o) => !seen.has(occurrenceKey(o))),
+    ],
+  };
+}
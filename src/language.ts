@@ -0,0 +1,92 @@
+// ------------------------- Languages + Unicode-aware regex ----------------------------
+
+export const SUPPORTED_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "fr", label: "French" },
+  { code: "es", label: "Spanish" },
+  { code: "de-DE", label: "German" },
+];
+
+// "auto" lets each paragraph be detected on its own.
+export const AUTO_LANGUAGE = "auto";
+
+const WORD_CLASS = "\\p{L}\\p{M}\\p{N}_";
+
+// A single "word" character in any script (letters incl. accents/combining marks, digits).
+export const WORD_CHAR = new RegExp(`[${WORD_CLASS}]`, "u");
+
+// `\b` that treats "é" or "ñ" as part of a word.
+const WORD_BOUNDARY = `(?:(?<=[${WORD_CLASS}])(?![${WORD_CLASS}])|(?<![${WORD_CLASS}])(?=[${WORD_CLASS}]))`;
+
+/**
+ * Compile `source` with Unicode semantics: `\w`/`\W`/`\b` are rewritten so accented
+ * letters count as word characters (they don't in plain JS regexes).
+ */
+export function toUnicodeRegExp(source: string, flags = ""): RegExp {
+  let out = "";
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      const next = source[i + 1] ?? "";
+      i++;
+      if (next === "w") out += inClass ? WORD_CLASS : `[${WORD_CLASS}]`;
+      else if (next === "W" && !inClass) out += `[^${WORD_CLASS}]`;
+      else if (next === "b" && !inClass) out += WORD_BOUNDARY;
+      else out += ch + next;
+      continue;
+    }
+    if (ch === "[" && !inClass) inClass = true;
+    else if (ch === "]" && inClass) inClass = false;
+    out += ch;
+  }
+  return new RegExp(out, flags.includes("u") ? flags : flags + "u");
+}
+
+/**
+ * "fr-CA" → "fr"
+ */
+export function baseLanguage(code: string): string {
+  return code.split("-")[0].toLowerCase();
+}
+
+// Short, very frequent function words; enough to tell these apart on a sentence or two.
+const STOPWORDS: Record<string, string[]> = {
+  "en-US": ["the", "and", "of", "to", "is", "was", "he", "she", "it", "you", "that", "with", "his", "her", "in"],
+  fr: ["le", "la", "les", "et", "est", "un", "une", "des", "du", "il", "elle", "je", "pas", "que", "dans", "avec", "sur"],
+  es: ["el", "la", "los", "las", "y", "es", "un", "una", "del", "que", "en", "por", "con", "pero", "está", "muy", "se"],
+  "de-DE": ["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "ich", "sie", "er", "mit", "auf", "zu"],
+};
+
+/**
+ * Tiny stopword-based detector. Returns null when the text is too short to tell.
+ */
+export function detectLanguage(text: string): string | null {
+  const words = text.toLowerCase().match(toUnicodeRegExp("\\w+", "g")) ?? [];
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const set = new Set(stopwords);
+    const score = words.filter((w) => set.has(w)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 2 ? best : null;
+}
+
+/**
+ * The language to check a paragraph in: its own `lang`, else the document default, else
+ * (for "auto") a local guess. `autoDetected` tells remote checkers they may detect themselves.
+ */
+export function resolveLanguage(
+  paragraphLang: string | undefined,
+  documentLanguage: string,
+  text: string
+): { language: string; autoDetected: boolean } {
+  if (paragraphLang && paragraphLang !== AUTO_LANGUAGE) return { language: paragraphLang, autoDetected: false };
+  if (documentLanguage !== AUTO_LANGUAGE) return { language: documentLanguage, autoDetected: false };
+  return { language: detectLanguage(text) ?? "en-US", autoDetected: true };
+}
@@ -0,0 +1,417 @@
+import { baseLanguage } from "./language";
+import { validateCustomPattern } from "./providers/customRules";
+import { validateTokenPattern } from "./nlp/tokenPatterns";
+import { CustomRule, TokenPattern, uid } from "./suggestions";
+
+// ------------------------- LanguageTool grammar.xml ----------------------------
+
+/**
+ * Something in an imported rule we could not translate. `skipped` rules were not
+ * imported at all; the others were, but may match more or less than on the LT server.
+ */
+export type XmlImportIssue = {
+  rule: string;
+  message: string;
+  skipped: boolean;
+};
+
+export type XmlImportResult = {
+  rules: CustomRule[];
+  issues: XmlImportIssue[];
+};
+
+class UnsupportedConstructError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedConstructError";
+  }
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const error = doc.getElementsByTagName("parsererror")[0];
+  if (error) throw new Error(`Not well-formed XML: ${error.textContent?.trim().split("\n")[0]}`);
+  return doc;
+}
+
+function childElements(el: Element): Element[] {
+  return Array.from(el.children);
+}
+
+// ---- Export ----
+
+/**
+ * `xml` as returned by the AI generator, if it is a well-formed LT `<rule>` with a pattern
+ * and a message; otherwise undefined (export then falls back to the rule's regex).
+ */
+export function validateRuleXml(xml: string | undefined): string | undefined {
+  if (!xml?.trim()) return undefined;
+  try {
+    const root = parseXml(xml).documentElement;
+    if (root.tagName !== "rule") throw new Error(`Expected <rule>, got <${root.tagName}>`);
+    const tags = childElements(root).map((el) => el.tagName);
+    if (!tags.includes("pattern") && !tags.includes("regexp")) throw new Error("Missing <pattern> or <regexp>");
+    if (!tags.includes("message")) throw new Error("Missing <message>");
+    return xml.trim();
+  } catch (e) {
+    console.error("Discarding invalid LanguageTool rule XML:", e);
+    return undefined;
+  }
+}
+
+function tokenToXml(token: TokenPattern, tag = "token"): string {
+  const attrs = [
+    token.regexp && `regexp="yes"`,
+    token.inflected && `inflected="yes"`,
+    token.negate && `negate="yes"`,
+    token.postag && `postag="${escapeXml(token.postag)}"`,
+    token.postagRegexp && `postag_regexp="yes"`,
+    token.negatePos && `negate_pos="yes"`,
+    token.skip && `skip="${token.skip}"`,
+  ].filter(Boolean);
+  const open = [tag, ...attrs].join(" ");
+  const exceptions = (token.exceptions ?? []).map((e) => tokenToXml(e, "exception")).join("");
+  const text = escapeXml(token.text ?? "");
+  return text || exceptions ? `<${open}>${text}${exceptions}</${tag}>` : `<${open}/>`;
+}
+
+/**
+ * The `<token>` elements of a `<pattern>` (without the `<pattern>` itself), one per line,
+ * with the marked run wrapped in `<marker>` unless every token is marked.
+ */
+export function tokenPatternToXml(tokens: TokenPattern[]): string {
+  const allMarked = tokens.every((t) => t.marker) || !tokens.some((t) => t.marker);
+  const lines: string[] = [];
+  tokens.forEach((token, i) => {
+    const marked = !allMarked && !!token.marker;
+    if (marked && !tokens[i - 1]?.marker) lines.push("<marker>");
+    lines.push(`${marked ? "  " : ""}${tokenToXml(token)}`);
+    if (marked && !tokens[i + 1]?.marker) lines.push("</marker>");
+  });
+  return lines.join("\n");
+}
+
+/**
+ * The `<rule>` for one custom rule: the XML it was imported/generated with when valid,
+ * else a `<pattern>` or `<regexp>` rule built from what the local engine actually runs.
+ */
+export function ruleToXml(rule: CustomRule): string {
+  const stored = validateRuleXml(rule.xml);
+  if (stored) return stored;
+
+  // LT refers to regex groups (and tokens) as \1; named groups have no LT equivalent and stay as written.
+  const toLT = (template: string) =>
+    template.replace(/\$\$|\$(\d{1,2})/g, (ref, n) => (ref === "$$" ? "$" : `\\${n}`));
+  const suggestions = rule.replacements.map((r) => ` <suggestion>${escapeXml(toLT(r))}</suggestion>`).join("");
+  const pattern = rule.tokens
+    ? ["  <pattern>", ...tokenPatternToXml(rule.tokens).split("\n").map((line) => `    ${line}`), "  </pattern>"]
+    : [`  <regexp>${escapeXml(rule.pattern)}</regexp>`];
+  return [
+    `<rule id="CUSTOM_${escapeXml(rule.id.toUpperCase())}" name="${escapeXml(rule.intent)}">`,
+    ...pattern,
+    `  <message>${escapeXml(rule.message)}${suggestions}</message>`,
+    `</rule>`,
+  ].join("\n");
+}
+
+/**
+ * The active rule set as a LanguageTool `grammar.xml` with a single `<category>`.
+ */
+export function exportGrammarXml(rules: CustomRule[], language: string, categoryName = "Style guide"): string {
+  const indent = (xml: string) => xml.split("\n").map((line) => `    ${line}`).join("\n");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rules lang="${escapeXml(baseLanguage(language))}">`,
+    `  <category id="STYLE_GUIDE" name="${escapeXml(categoryName)}" type="style">`,
+    ...rules.map((rule) => indent(ruleToXml(rule))),
+    `  </category>`,
+    `</rules>`,
+    "",
+  ].join("\n");
+}
+
+// ---- Import ----
+
+const PUNCTUATION_TOKEN = /^[^\p{L}\p{N}]+$/u;
+
+// Plain word tokens only; anything needing tags, lemmas, skips or exceptions goes through `patternToTokens`.
+function tokenToRegExp(token: Element): { source: string; punctuation: boolean } {
+  for (const attr of ["chunk", "min", "max"]) {
+    if (token.hasAttribute(attr)) throw new UnsupportedConstructError(`<token ${attr}="…"> is not supported`);
+  }
+  const child = childElements(token)[0];
+  if (child) throw new UnsupportedConstructError(`<${child.tagName}> inside <token> is not supported`);
+
+  const text = Array.from(token.childNodes)
+    .filter((n) => n.nodeType === Node.TEXT_NODE)
+    .map((n) => n.textContent ?? "")
+    .join("")
+    .trim();
+  const isRegExp = token.getAttribute("regexp") === "yes";
+  let source = text === "" ? "\\w+" : isRegExp ? `(?:${text})` : escapeRegExp(text);
+  if (token.getAttribute("negate") === "yes") source = `(?!${source}\\b)\\w+`;
+
+  const punctuation = text !== "" && !isRegExp && PUNCTUATION_TOKEN.test(text);
+  return { source: punctuation ? source : `\\b${source}\\b`, punctuation };
+}
+
+// Attributes the token matcher understands; a <pattern> using any of them becomes a token rule.
+const TOKEN_FEATURES = ["postag", "inflected", "skip"];
+
+function usesTokenFeatures(pattern: Element): boolean {
+  return Array.from(pattern.getElementsByTagName("token")).some(
+    (token) => TOKEN_FEATURES.some((attr) => token.hasAttribute(attr)) || token.getElementsByTagName("exception").length > 0
+  );
+}
+
+function parseToken(el: Element, marker: boolean): TokenPattern {
+  for (const attr of ["chunk", "min", "max", "spacebefore"]) {
+    if (el.hasAttribute(attr)) throw new UnsupportedConstructError(`<${el.tagName} ${attr}="…"> is not supported`);
+  }
+  const scope = el.getAttribute("scope");
+  if (scope && scope !== "current") throw new UnsupportedConstructError(`<exception scope="${scope}"> is not supported`);
+
+  const exceptions: TokenPattern[] = [];
+  for (const child of childElements(el)) {
+    if (el.tagName === "token" && child.tagName === "exception") exceptions.push(parseToken(child, false));
+    else throw new UnsupportedConstructError(`<${child.tagName}> inside <${el.tagName}> is not supported`);
+  }
+  const text = Array.from(el.childNodes)
+    .filter((n) => n.nodeType === Node.TEXT_NODE)
+    .map((n) => n.textContent ?? "")
+    .join("")
+    .trim();
+  const token: TokenPattern = {};
+  if (text) token.text = text;
+  if (el.getAttribute("regexp") === "yes") token.regexp = true;
+  if (el.getAttribute("inflected") === "yes") token.inflected = true;
+  if (el.getAttribute("negate") === "yes") token.negate = true;
+  if (el.hasAttribute("postag")) token.postag = el.getAttribute("postag") ?? "";
+  if (el.getAttribute("postag_regexp") === "yes") token.postagRegexp = true;
+  if (el.getAttribute("negate_pos") === "yes") token.negatePos = true;
+  if (el.hasAttribute("skip")) token.skip = Number(el.getAttribute("skip"));
+  if (marker) token.marker = true;
+  if (exceptions.length > 0) token.exceptions = exceptions;
+  return token;
+}
+
+/**
+ * `<pattern>` → token elements for the local token matcher.
+ */
+function patternToTokens(pattern: Element, warnings: string[]): TokenPattern[] {
+  if (pattern.getAttribute("case_sensitive") === "yes") warnings.push("case_sensitive is ignored; matching is case-insensitive");
+
+  const tokens: TokenPattern[] = [];
+  let markers = 0;
+  for (const child of childElements(pattern)) {
+    if (child.tagName === "token") {
+      tokens.push(parseToken(child, false));
+    } else if (child.tagName === "marker") {
+      if (++markers > 1) throw new UnsupportedConstructError("more than one <marker>");
+      for (const inner of childElements(child)) {
+        if (inner.tagName !== "token") throw new UnsupportedConstructError(`<${inner.tagName}> inside <marker> is not supported`);
+        tokens.push(parseToken(inner, true));
+      }
+    } else {
+      throw new UnsupportedConstructError(`<${child.tagName}> in <pattern> is not supported`);
+    }
+  }
+  if (tokens.length === 0) throw new UnsupportedConstructError("empty <pattern>");
+  return tokens;
+}
+
+/**
+ * The body of a `<pattern>` as typed in the rule editor (or returned by the AI generator)
+ * → token elements. Throws with a readable message when it can't be used.
+ */
+export function parseTokenPatternXml(xml: string): TokenPattern[] {
+  const body = xml.trim().replace(/^<pattern\b[^>]*>|<\/pattern>$/g, "");
+  const tokens = patternToTokens(parseXml(`<pattern>${body}</pattern>`).documentElement, []);
+  const problem = validateTokenPattern(tokens);
+  if (problem) throw new Error(problem);
+  return tokens;
+}
+
+// Token N of a <pattern> is captured as group `tN`, so `\N` and `<match no="N"/>` can refer to it.
+function tokenGroup(n: number) {
+  return `t${n}`;
+}
+
+/**
+ * `<pattern>` → regex. Tokens outside `<marker>` become lookarounds so only the marked
+ * tokens are underlined, as on the server.
+ */
+function patternToRegExp(pattern: Element, warnings: string[]): string {
+  if (pattern.getAttribute("case_sensitive") === "yes") warnings.push("case_sensitive is ignored; matching is case-insensitive");
+
+  const tokens: Array<{ source: string; punctuation: boolean; marked: boolean }> = [];
+  let hasMarker = false;
+  for (const child of childElements(pattern)) {
+    if (child.tagName === "token") {
+      tokens.push({ ...tokenToRegExp(child), marked: false });
+    } else if (child.tagName === "marker") {
+      hasMarker = true;
+      for (const inner of childElements(child)) {
+        if (inner.tagName !== "token") throw new UnsupportedConstructError(`<${inner.tagName}> inside <marker> is not supported`);
+        tokens.push({ ...tokenToRegExp(inner), marked: true });
+      }
+    } else {
+      throw new UnsupportedConstructError(`<${child.tagName}> in <pattern> is not supported`);
+    }
+  }
+  if (tokens.length === 0) throw new UnsupportedConstructError("empty <pattern>");
+  if (!hasMarker) tokens.forEach((t) => (t.marked = true));
+  tokens.forEach((t, i) => (t.source = `(?<${tokenGroup(i + 1)}>${t.source})`));
+
+  // Punctuation may sit right against the previous word ("however ,"/"however,").
+  const separator = (i: number) => (tokens[i - 1].punctuation || tokens[i].punctuation ? "\\s*" : "\\s+");
+  const join = (from: number, to: number) =>
+    tokens.slice(from, to).map((t, i) => (i === 0 ? t.source : separator(from + i) + t.source)).join("");
+
+  const first = tokens.findIndex((t) => t.marked);
+  const end = first + tokens.slice(first).findIndex((t) => !t.marked);
+  const last = end < first ? tokens.length : end;
+  if (tokens.slice(last).some((t) => t.marked)) throw new UnsupportedConstructError("more than one <marker>");
+
+  const before = first > 0 ? `(?<=${join(0, first)}${separator(first)})` : "";
+  const after = last < tokens.length ? `(?=${separator(last)}${join(last, tokens.length)})` : "";
+  return before + join(first, last) + after;
+}
+
+/**
+ * LT text with `\N` / `<match no="N"/>` references → one of our replacement templates.
+ */
+function toTemplate(el: Element, ref: (n: number) => string): string {
+  return Array.from(el.childNodes).map((node) => nodeToTemplate(node, el.tagName, ref)).join("").trim();
+}
+
+function nodeToTemplate(node: ChildNode, parentTag: string, ref: (n: number) => string): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent ?? "").replace(/\$/g, "$$$$").replace(/\\(\d+)/g, (_, n) => ref(Number(n)));
+  }
+  const el = node as Element;
+  if (el.tagName !== "match") throw new UnsupportedConstructError(`<${el.tagName}> in <${parentTag}> is not supported`);
+  const extra = Array.from(el.attributes).filter((a) => a.name !== "no");
+  if (extra.length > 0) throw new UnsupportedConstructError(`<match ${extra[0].name}="…"> is not supported`);
+  return ref(Number(el.getAttribute("no")));
+}
+
+function translateRule(
+  rule: Element,
+  warnings: string[]
+): Pick<CustomRule, "pattern" | "tokens" | "message" | "replacements"> {
+  let pattern: string | null = null;
+  let tokens: TokenPattern[] | undefined;
+  let message = "";
+  const suggestions: string[] = [];
+  // <pattern> references count tokens; <regexp> references count regex groups. Token rules
+  // number their tokens the same way, and regex translations capture each token as `tN`.
+  const patternEl = childElements(rule).find((c) => c.tagName === "pattern");
+  const isTokenRule = !!patternEl && usesTokenFeatures(patternEl);
+  const isRegExpRule = childElements(rule).some((c) => c.tagName === "regexp");
+  const ref = (n: number) => (isRegExpRule || isTokenRule ? `$${n}` : `$<${tokenGroup(n)}>`);
+
+  for (const child of childElements(rule)) {
+    switch (child.tagName) {
+      case "pattern":
+        if (isTokenRule) {
+          tokens = patternToTokens(child, warnings);
+          pattern = "";
+        } else {
+          pattern = patternToRegExp(child, warnings);
+        }
+        break;
+      case "regexp":
+        if (child.hasAttribute("mark")) warnings.push(`<regexp mark="…"> is ignored; the whole match is flagged`);
+        pattern = (child.textContent ?? "").trim();
+        break;
+      case "message":
+        for (const node of Array.from(child.childNodes)) {
+          if ((node as Element).tagName === "suggestion") {
+            const template = toTemplate(node as Element, ref);
+            suggestions.push(template);
+            message += `“${template}”`;
+          } else {
+            message += nodeToTemplate(node, "message", ref);
+          }
+        }
+        break;
+      case "suggestion":
+        suggestions.push(toTemplate(child, ref));
+        break;
+      case "antipattern":
+        warnings.push("<antipattern>s are ignored, so it may flag more");
+        break;
+      case "short":
+      case "url":
+      case "example":
+        break;
+      default:
+        throw new UnsupportedConstructError(`<${child.tagName}> is not supported`);
+    }
+  }
+
+  if (pattern === null) throw new UnsupportedConstructError("no <pattern> or <regexp>");
+  const problem = tokens ? validateTokenPattern(tokens) : validateCustomPattern(pattern);
+  if (problem) {
+    const what = tokens ? "token pattern" : `pattern /${pattern}/`;
+    throw new UnsupportedConstructError(`the translated ${what} is unusable: ${problem}`);
+  }
+
+  return { pattern, tokens, message: message.replace(/\s+/g, " ").trim(), replacements: suggestions };
+}
+
+/**
+ * Translate every `<rule>` (including those in `<rulegroup>`s) of an LT grammar file into
+ * local custom rules. Throws only when the file itself is not usable.
+ */
+export function importGrammarXml(xml: string): XmlImportResult {
+  const doc = parseXml(xml);
+  const serializer = new XMLSerializer();
+  const rules: CustomRule[] = [];
+  const issues: XmlImportIssue[] = [];
+
+  const ruleElements = Array.from(doc.getElementsByTagName("rule"));
+  if (ruleElements.length === 0) throw new Error("No <rule> elements found.");
+
+  for (const el of ruleElements) {
+    const group = el.parentElement?.tagName === "rulegroup" ? el.parentElement : null;
+    const index = group ? childElements(group).filter((c) => c.tagName === "rule").indexOf(el) + 1 : 0;
+    const id = el.getAttribute("id") ?? (group ? `${group.getAttribute("id")}[${index}]` : "(unnamed)");
+    const name = el.getAttribute("name") ?? group?.getAttribute("name") ?? id;
+
+    const warnings: string[] = [];
+    if (group && childElements(group).some((c) => c.tagName === "antipattern")) {
+      warnings.push("rulegroup <antipattern>s are ignored, so it may flag more");
+    }
+
+    try {
+      const translated = translateRule(el, warnings);
+      // Keep the original XML (with an id, for rules inside a group) so export round-trips.
+      const copy = el.cloneNode(true) as Element;
+      if (!copy.hasAttribute("id")) copy.setAttribute("id", id.replace(/\W/g, "_"));
+      if (!copy.hasAttribute("name")) copy.setAttribute("name", name);
+      rules.push({
+        id: uid(),
+        intent: name,
+        ...translated,
+        message: translated.message || name,
+        xml: serializer.serializeToString(copy),
+      });
+      issues.push(...warnings.map((message) => ({ rule: id, message, skipped: false })));
+    } catch (e) {
+      if (!(e instanceof UnsupportedConstructError)) throw e;
+      issues.push({ rule: id, message: e.message, skipped: true });
+    }
+  }
+
+  return { rules, issues };
+}
@@ -0,0 +1,92 @@
+import { isKnownWord, tagText, TaggedToken } from "./tagger";
+import { AgreementClass, agreementClass, analyzeVerb, inflect, isInflectedAuxiliary, matchVerbCase } from "./verbs";
+
+// ------------------------- Subject–verb agreement for a changed subject (English) ----------------------------
+
+export type AgreementEdit = { offset: number; length: number; replacement: string };
+
+const FINITE_TAGS = ["VBZ", "VBP", "VBD", "MD"];
+
+const COORDINATORS = new Set(["and", "or", "but"]);
+
+function has(token: TaggedToken | undefined, ...tags: string[]) {
+  return !!token && token.readings.some((r) => tags.includes(r.pos));
+}
+
+/**
+ * The form of `token` that agrees with a subject of class `agreement` in the same tense,
+ * or null if it already does or isn't a finite verb.
+ */
+function conjugate(token: TaggedToken, agreement: AgreementClass, guess: boolean): string | null {
+  const verb = analyzeVerb(token, guess);
+  if (!verb?.tense) return null;
+  const form = inflect(verb, verb.tense, agreement);
+  return form === token.text.toLowerCase().replace(/’/g, "'") ? null : matchVerbCase(form, token.text);
+}
+
+/**
+ * The verbs whose form depends on the subject at `index`: an inverted auxiliary before it
+ * ("Is he…", "Where does she…"), otherwise the first verb after it (past adverbs) and
+ * verbs coordinated with that one ("walks in and sits"). `guess` marks the one spot where
+ * an unknown bare word is taken for a verb.
+ */
+export function governedVerbs(tokens: TaggedToken[], index: number): Array<{ token: TaggedToken; guess: boolean }> {
+  const sentence = tokens[index].sentence;
+  const inSentence = (i: number) => i >= 0 && i < tokens.length && tokens[i].sentence === sentence;
+  const clauseStart = (i: number) => !inSentence(i) || !/\p{L}/u.test(tokens[i].text) || has(tokens[i], "WRB", "WP");
+
+  if (inSentence(index - 1) && isInflectedAuxiliary(tokens[index - 1].text) && clauseStart(index - 2)) {
+    return [{ token: tokens[index - 1], guess: false }];
+  }
+
+  const skipAdverbs = (i: number) => {
+    while (inSentence(i) && has(tokens[i], "RB") && !has(tokens[i], "VBZ", "VBP")) i++;
+    return i;
+  };
+  const first = skipAdverbs(index + 1);
+  if (!inSentence(first)) return [];
+  const verbs = [{ token: tokens[first], guess: true }];
+  if (!analyzeVerb(tokens[first], true)) return verbs;
+
+  for (let i = first + 1; inSentence(i); i++) {
+    const token = tokens[i];
+    // Another subject or clause: the rest of the sentence isn't governed by this one.
+    if (has(token, "WP", "WDT") || /^[“”"‘’:;—]$/.test(token.text)) break;
+    if (has(token, "PRP", "NNP") && has(tokens[skipAdverbs(i + 1)], ...FINITE_TAGS)) break;
+    if (!COORDINATORS.has(token.text.toLowerCase())) continue;
+    const next = skipAdverbs(i + 1);
+    if (!inSentence(next)) break;
+    const candidate = tokens[next];
+    // Unknown "-s" words are verbs only when not listed after a plural noun ("apples and pears").
+    const plausible = isKnownWord(candidate.text) || (has(candidate, "VBZ") && !has(tokens[i - 1], "NNS"));
+    if (plausible) verbs.push({ token: candidate, guess: false });
+    i = next;
+  }
+  return verbs;
+}
+
+/**
+ * For each subject pronoun at `offset` that is being replaced by `subject`, the verb edits
+ * that keep its clause in agreement: "walks" → "walk", "is" → "are", "has" → "have",
+ * "Does he" → "Do they", "I am" → "she is". Keyed by the subject's offset.
+ */
+export function verbAgreementEdits(
+  text: string,
+  subjects: Array<{ offset: number; subject: string }>
+): Map<number, AgreementEdit[]> {
+  const result = new Map<number, AgreementEdit[]>();
+  if (subjects.length === 0) return result;
+  const tokens = tagText(text);
+
+  for (const { offset, subject } of subjects) {
+    const index = tokens.findIndex((t) => t.start === offset);
+    if (index < 0) continue;
+    const edits: AgreementEdit[] = [];
+    for (const { token, guess } of governedVerbs(tokens, index)) {
+      const replacement = conjugate(token, agreementClass(subject), guess);
+      if (replacement) edits.push({ offset: token.start, length: token.text.length, replacement });
+    }
+    result.set(offset, edits);
+  }
+  return result;
+}
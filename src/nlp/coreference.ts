@@ -0,0 +1,230 @@
+import { PronounForm, PronounSet } from "../suggestions";
+import { dialogueIds } from "./dialogue";
+import { isKnownWord, tagText, TaggedToken } from "./tagger";
+import { ABBREVIATIONS } from "./tokenizer";
+
+// ------------------------- Offline coreference (pronoun → named entity) ----------------------------
+
+const FORMS: PronounForm[] = ["subject", "object", "possessive", "possessivePronoun", "reflexive"];
+
+// Below this, a pronoun is left unattributed rather than guessed.
+export const MIN_CONFIDENCE = 0.6;
+
+// Readings that make the next token the head of a noun phrase: "her coat", "his own".
+const NOUN_PHRASE_TAGS = new Set(["NN", "NNS", "NNP", "JJ", "CD"]);
+const VERB_TAGS = new Set(["VBD", "VBZ", "VBP", "MD"]);
+
+export type EntitySpan = { entityId: string; start: number; end: number };
+
+export type ResolvedPronoun = {
+  offset: number;
+  length: number;
+  word: string;
+  // The slot it fills here ("her" before a noun is possessive); null if the set has no such word.
+  form: PronounForm | null;
+  entityId: string | null;
+  confidence: number; // 0–1, for the chosen entity
+};
+
+type EntityState = {
+  pronouns?: PronounSet; // registered, or observed from a confidently linked pronoun
+  sentence: number; // of the latest mention; negative for earlier paragraphs
+  subject: boolean;
+  quote: number;
+};
+
+/**
+ * What carries over from one paragraph to the next: who was mentioned, most recent first.
+ */
+export type CorefContext = {
+  order: string[];
+  entities: Record<string, EntityState>;
+};
+
+export type CorefOptions = {
+  // Registered entities (characters) and where they are named in the text.
+  mentions?: EntitySpan[];
+  pronounsOf?: (entityId: string) => PronounSet | undefined;
+  // Every pronoun set to look for (presets plus registered ones).
+  pronounSets: PronounSet[];
+  context?: CorefContext;
+};
+
+function formsOf(word: string, sets: PronounSet[]): PronounForm[] {
+  return FORMS.filter((form) => sets.some((set) => set[form] && set[form].toLowerCase() === word));
+}
+
+// Singular "they" takes either reflexive, whichever its set lists.
+function sameWord(a: string, b: string) {
+  return a === b || (["themself", "themselves"].includes(a) && ["themself", "themselves"].includes(b));
+}
+
+function agrees(pronouns: PronounSet | undefined, word: string): boolean | null {
+  if (!pronouns) return null;
+  return FORMS.some((form) => pronouns[form] && sameWord(pronouns[form].toLowerCase(), word));
+}
+
+/**
+ * "her"/"hir" (object or possessive) and "his" (possessive or standalone) are told apart by
+ * the next token: a noun phrase after it means the possessive.
+ */
+function resolveForm(forms: PronounForm[], next: TaggedToken | undefined): PronounForm | null {
+  if (forms.length <= 1) return forms[0] ?? null;
+  const beforeNoun = !!next && next.readings.some((r) => NOUN_PHRASE_TAGS.has(r.pos));
+  if (forms.includes("possessive")) {
+    if (beforeNoun) return "possessive";
+    return forms.find((f) => f !== "possessive") ?? "possessive";
+  }
+  return forms[0];
+}
+
+/**
+ * Resolve every third-person pronoun in `text` to the most plausible preceding entity:
+ * registered ones from `mentions`, capitalized names found in the text, or (for a pronoun
+ * with nothing before it) an unnamed referent that later pronouns can refer back to.
+ *
+ * Candidates are scored on recency, agreement with the pronouns they are written with,
+ * subject position, binding (an object pronoun rarely means its own clause's subject) and
+ * whether both sit on the same side of a quote; the confidence is the margin over the
+ * runner-up.
+ */
+export function resolvePronouns(
+  text: string,
+  { mentions = [], pronounsOf = () => undefined, pronounSets, context }: CorefOptions
+): { pronouns: ResolvedPronoun[]; context: CorefContext } {
+  const tokens = tagText(text);
+  const quotes = dialogueIds(text, tokens);
+  const words = new Set(pronounSets.flatMap((set) => FORMS.map((f) => set[f].toLowerCase()).filter(Boolean)));
+
+  // Earlier paragraphs count as two sentences back, keeping their order.
+  const entities = new Map<string, EntityState>();
+  const order: string[] = [];
+  (context?.order ?? []).forEach((id, i) => {
+    const state = context!.entities[id];
+    if (!state) return;
+    entities.set(id, { ...state, sentence: -2 - i, quote: 0 });
+    order.push(id);
+  });
+  let unnamed = Object.keys(context?.entities ?? {}).filter((id) => id.startsWith("unnamed:")).length;
+
+  const mentionAt = new Map<number, EntitySpan>();
+  for (const m of mentions) {
+    const first = tokens.findIndex((t) => t.start >= m.start && t.end <= m.end);
+    if (first >= 0) mentionAt.set(first, m);
+  }
+  const written = new Set(tokens.map((t) => t.text.toLowerCase()));
+  const unwritten = new Set(
+    mentions
+      .map((m) => m.entityId)
+      .filter((id) => {
+        const set = pronounsOf(id);
+        return set && !FORMS.some((f) => set[f] && written.has(set[f].toLowerCase()));
+      })
+  );
+  const inMention = (t: TaggedToken) => mentions.some((m) => t.start >= m.start && t.end <= m.end);
+  const namedMidSentence = new Set(
+    tokens.filter((t) => t.readings.some((r) => r.pos === "NNP")).map((t) => t.text)
+  );
+  const isFirstWord = (i: number) => {
+    for (let j = i - 1; j >= 0 && tokens[j].sentence === tokens[i].sentence; j--) {
+      if (/\p{L}/u.test(tokens[j].text)) return false;
+    }
+    return true;
+  };
+
+  const touch = (id: string, state: EntityState) => {
+    const known = entities.get(id);
+    entities.set(id, { ...state, pronouns: state.pronouns ?? known?.pronouns });
+    if (order.includes(id)) order.splice(order.indexOf(id), 1);
+    order.unshift(id);
+  };
+
+  const pronouns: ResolvedPronoun[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const lower = token.text.toLowerCase();
+    const subjectPosition = isFirstWord(i) || !!tokens[i + 1]?.readings.some((r) => VERB_TAGS.has(r.pos));
+
+    // ---- Named mentions ----
+    const registered = mentionAt.get(i);
+    if (registered) {
+      touch(registered.entityId, {
+        pronouns: pronounsOf(registered.entityId),
+        sentence: token.sentence,
+        subject: subjectPosition,
+        quote: quotes[i],
+      });
+      continue;
+    }
+    const capitalized = /^\p{Lu}\p{Ll}+$/u.test(token.text) && !words.has(lower) && !inMention(token);
+    // Sentence-initial words aren't tagged NNP; an unknown one counts if it is a name
+    // elsewhere or is directly followed by a verb ("Anna met", but not "Try typing").
+    const looksLikeName =
+      capitalized &&
+      !ABBREVIATIONS.has(lower) &&
+      (token.readings.some((r) => r.pos === "NNP") ||
+        (!isKnownWord(lower) &&
+          !token.readings.some((r) => r.pos === "RB") &&
+          (namedMidSentence.has(token.text) || !!tokens[i + 1]?.readings.some((r) => VERB_TAGS.has(r.pos)))));
+    if (looksLikeName) {
+      touch(`name:${token.text}`, { sentence: token.sentence, subject: subjectPosition, quote: quotes[i] });
+      continue;
+    }
+    if (!words.has(lower)) continue;
+
+    // ---- Pronouns ----
+    const forms = formsOf(lower, pronounSets);
+    const form = resolveForm(forms, tokens[i + 1]);
+    const isSubject = form === "subject";
+    const isReflexive = form === "reflexive";
+    const plural = ["they", "them", "their", "theirs", "themselves"].includes(lower);
+
+    const scored = order.map((id) => {
+      const entity = entities.get(id)!;
+      const distance = token.sentence - entity.sentence;
+      let score = 1 + 2 / (1 + distance);
+      const agreement = agrees(entity.pronouns, lower);
+      if (agreement === true) score += 2;
+      // Plural "they" is common, so it counts against anyone not known to use it. A registered
+      // set the text never uses yet, though, is likely the one being misgendered.
+      if (agreement === false) score -= plural ? 2.5 : unwritten.has(id) ? 0.75 : 1.5;
+      else if (agreement === null && plural) score -= 1.25;
+      // Parallelism only tips the balance between candidates the pronoun fits.
+      if (entity.subject && agreement === true) score += isSubject ? 1 : 0.5;
+      if (distance === 0 && entity.subject) {
+        if (isReflexive) score += 2;
+        else if (form === "object") score -= 3;
+      } else if (isReflexive) {
+        score -= 1;
+      }
+      if (entity.quote !== quotes[i]) score -= 0.75;
+      return { id, score };
+    }).sort((a, b) => b.score - a.score);
+
+    let entityId: string | null = null;
+    let confidence = 1;
+    if (scored.length === 0) {
+      // Nothing to refer back to: the pronoun introduces a referent of its own.
+      entityId = `unnamed:${++unnamed}`;
+    } else {
+      const [best, second] = scored;
+      confidence = 1 / (1 + Math.exp(-(best.score - (second?.score ?? 0))));
+      if (confidence >= MIN_CONFIDENCE) entityId = best.id;
+    }
+
+    if (entityId) {
+      // An entity nobody registered is written with whatever pronouns it is first linked to.
+      const sets = pronounSets.filter((set) => agrees(set, lower));
+      const observed = new Set(sets.map((set) => set.subject)).size === 1 ? sets[0] : undefined;
+      touch(entityId, {
+        pronouns: entities.get(entityId)?.pronouns ?? observed,
+        sentence: token.sentence,
+        subject: isSubject,
+        quote: quotes[i],
+      });
+    }
+    pronouns.push({ offset: token.start, length: token.text.length, word: token.text, form, entityId, confidence });
+  }
+
+  return { pronouns, context: { order, entities: Object.fromEntries(entities) } };
+}
@@ -0,0 +1,142 @@
+import { Token } from "./tokenizer";
+
+// ------------------------- Dialogue vs. narration ----------------------------
+
+/**
+ * A stretch of quoted speech, marks included. Quotes nested inside it (“He said ‘no’.”)
+ * belong to the same passage.
+ */
+export type DialoguePassage = {
+  start: number; // the opening mark or dash
+  end: number; // after the closing mark; the paragraph end if it is never closed
+  open: string; // “ „ ‘ ‚ « " or a dash
+  close: string | null; // null when the passage runs to the end of the paragraph
+};
+
+// A quotation mark without its other half. `closing`: a closing mark nothing opened.
+export type UnpairedQuote = { offset: number; mark: string; closing: boolean };
+
+export type DialogueSegmentation = {
+  passages: DialoguePassage[];
+  unpaired: UnpairedQuote[];
+};
+
+// Opening mark → the marks that close it. „ and ‚ (German) close with “ or ”.
+const CLOSERS = new Map([
+  ["“", "”"],
+  ["„", "“”"],
+  ["‘", "’"],
+  ["‚", "‘’"],
+  ["«", "»"],
+  ['"', '"'],
+  ["'", "'"],
+]);
+
+const DASHES = /[—―]/;
+const WORD = /[\p{L}\p{N}]/u;
+
+/**
+ * Em-dash dialogue (Spanish, French, some literary English): a paragraph that opens with a
+ * dash is speech, and each later dash switches between speech and the narrator's aside:
+ * "—Ven aquí —dijo ella—. No tardes."
+ */
+function segmentDashDialogue(text: string, first: number): DialoguePassage[] {
+  const passages: DialoguePassage[] = [];
+  let open: { start: number; open: string } | null = { start: first, open: text[first] };
+  for (let i = first + 1; i < text.length; i++) {
+    if (!DASHES.test(text[i])) continue;
+    if (open) {
+      passages.push({ ...open, end: i, close: text[i] });
+      open = null;
+    } else if (WORD.test(text.slice(i + 1))) {
+      // The aside ends at its own dash; the speech resumes after it.
+      open = { start: i + 1, open: text[i] };
+    }
+  }
+  if (open) passages.push({ ...open, end: text.length, close: null });
+  return passages;
+}
+
+/**
+ * Split `text` into dialogue passages; everything outside them is narration. Handles
+ * curly, straight, low (German) and angle (French) quotes, quotes nested inside speech
+ * and em-dash dialogue. Apostrophes (“don’t”, “the dogs’ bowls”) and inch marks (5'11")
+ * are not taken for quotes.
+ */
+export function segmentDialogue(text: string): DialogueSegmentation {
+  const leading = text.search(/\S/);
+  if (leading >= 0 && DASHES.test(text[leading])) {
+    return { passages: segmentDashDialogue(text, leading), unpaired: [] };
+  }
+
+  const passages: DialoguePassage[] = [];
+  const unpaired: UnpairedQuote[] = [];
+  const stack: Array<{ offset: number; mark: string }> = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const mark = text[i];
+    const before = text[i - 1] ?? "";
+    const after = text[i + 1] ?? "";
+    const top = stack[stack.length - 1];
+
+    let closes = !!top && CLOSERS.get(top.mark)!.includes(mark);
+    // ’ and ' between letters are apostrophes; a straight one also needs speech around it.
+    if (closes && (mark === "’" || mark === "'")) closes = !(WORD.test(before) && WORD.test(after)) && !/\s/.test(before);
+    if (closes) {
+      stack.pop();
+      if (stack.length === 0) passages[passages.length - 1] = { ...passages[passages.length - 1], end: i + 1, close: mark };
+      continue;
+    }
+
+    let opens = CLOSERS.has(mark);
+    if (mark === '"') opens = !/\d/.test(before);
+    if (mark === "'") opens = stack.length > 0 && !WORD.test(before) && !!after && !/\s/.test(after);
+    if (mark === "‘" || mark === "‚") opens = !!after && !/\s/.test(after);
+    if (opens) {
+      if (stack.length === 0) passages.push({ start: i, end: text.length, open: mark, close: null });
+      stack.push({ offset: i, mark });
+      continue;
+    }
+
+    // A closing double mark that doesn't match the innermost quote: it closes an outer one,
+    // leaving the inner ones unclosed, or nothing at all.
+    if (mark === "”" || mark === "»") {
+      const outer = stack.findIndex((q) => CLOSERS.get(q.mark)!.includes(mark));
+      if (outer < 0) {
+        unpaired.push({ offset: i, mark, closing: true });
+        continue;
+      }
+      for (const inner of stack.splice(outer + 1)) {
+        if (inner.mark !== "'") unpaired.push({ offset: inner.offset, mark: inner.mark, closing: false });
+      }
+      i--; // handle it again, now against its own opening mark
+    }
+  }
+
+  // A stray straight ' was most likely an apostrophe after all.
+  for (const q of stack) {
+    if (q.mark !== "'") unpaired.push({ offset: q.offset, mark: q.mark, closing: false });
+  }
+  unpaired.sort((a, b) => a.offset - b.offset);
+  return { passages, unpaired };
+}
+
+/**
+ * The passage containing [start, end), or null if any of it is narration.
+ */
+export function dialogueAt(passages: DialoguePassage[], start: number, end = start + 1): DialoguePassage | null {
+  return passages.find((p) => start >= p.start && end <= p.end) ?? null;
+}
+
+/**
+ * Which dialogue passage each token is in: 0 in narration, otherwise its passage number
+ * (from 1). Marks and dashes belong to their passage.
+ */
+export function dialogueIds(text: string, tokens: Token[]): number[] {
+  const { passages } = segmentDialogue(text);
+  let p = 0;
+  return tokens.map((t) => {
+    while (p < passages.length && passages[p].end <= t.start) p++;
+    return p < passages.length && t.start >= passages[p].start ? p + 1 : 0;
+  });
+}
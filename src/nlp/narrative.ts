@@ -0,0 +1,247 @@
+import { NarrativePerson, NarrativeTense, PronounForm, PronounSet } from "../suggestions";
+import { governedVerbs } from "./agreement";
+import { dialogueIds } from "./dialogue";
+import { tagText, TaggedToken } from "./tagger";
+import { agreementClass, analyzeVerb, FiniteVerb, inflect, matchVerbCase } from "./verbs";
+
+// ------------------------- Narrative person + tense (English) ----------------------------
+
+const FIRST_PERSON = new Map<string, { form: PronounForm; plural: boolean }>([
+  ["i", { form: "subject", plural: false }],
+  ["me", { form: "object", plural: false }],
+  ["my", { form: "possessive", plural: false }],
+  ["mine", { form: "possessivePronoun", plural: false }],
+  ["myself", { form: "reflexive", plural: false }],
+  ["we", { form: "subject", plural: true }],
+  ["us", { form: "object", plural: true }],
+  ["our", { form: "possessive", plural: true }],
+  ["ours", { form: "possessivePronoun", plural: true }],
+  ["ourselves", { form: "reflexive", plural: true }],
+]);
+
+const NARRATOR_FORMS: PronounSet = { subject: "I", object: "me", possessive: "my", possessivePronoun: "mine", reflexive: "myself" };
+const WE_BECOME: PronounSet = { subject: "they", object: "them", possessive: "their", possessivePronoun: "theirs", reflexive: "themselves" };
+
+const SUBJECT_PRONOUNS = new Set(["i", "you", "he", "she", "it", "we", "they", "xe", "ze", "ey", "fae"]);
+const THIRD_PERSON = new Set(["he", "him", "his", "himself", "she", "her", "hers", "herself", "they", "them", "their", "themselves", "themself"]);
+
+type Clause = {
+  subject: TaggedToken;
+  verbs: Array<{ token: TaggedToken; verb: FiniteVerb }>;
+};
+
+export type NarrationSentence = {
+  start: number; // first to last token, quotes included
+  end: number;
+  // Of the first finite verb in the narration; null if there is none or it doesn't tell.
+  tense: NarrativeTense | null;
+  firstPerson: TaggedToken[]; // "I", "my", "we"… outside quotes
+  thirdPerson: boolean; // a third-person pronoun or a name outside quotes
+  clauses: Clause[];
+};
+
+export type NarrationAnalysis = {
+  tokens: TaggedToken[];
+  quotes: number[];
+  sentences: NarrationSentence[];
+};
+
+function isHead(tokens: TaggedToken[], i: number) {
+  const token = tokens[i];
+  const previous = tokens[i - 1];
+  if (SUBJECT_PRONOUNS.has(token.text.toLowerCase())) return true;
+  if (token.readings.some((r) => r.pos === "NNP" || r.pos === "EX")) return true;
+  // "The man", "Her mother", or a capitalized word at the start of the sentence ("Anna").
+  if (token.readings.some((r) => r.pos === "NN" || r.pos === "NNS")) {
+    if (previous?.sentence === token.sentence && previous.readings.some((r) => r.pos === "DT" || r.pos === "PRP$")) return true;
+    return /^\p{Lu}/u.test(token.text) && (!previous || previous.sentence !== token.sentence);
+  }
+  return false;
+}
+
+// Analyses are reused across checks while the paragraph text is unchanged.
+const cache = new Map<string, NarrationAnalysis>();
+const CACHE_LIMIT = 2000;
+
+/**
+ * Split `text` into sentences and describe the narration in each: the tense of its first
+ * finite verb, first- and third-person references and each subject with its verbs.
+ * Quoted dialogue is left out.
+ */
+export function analyzeNarration(text: string): NarrationAnalysis {
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  const tokens = tagText(text);
+  const quotes = dialogueIds(text, tokens);
+  const sentences: NarrationSentence[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    let sentence = sentences[sentences.length - 1];
+    if (!sentence || tokens[i - 1].sentence !== token.sentence) {
+      sentence = { start: token.start, end: token.end, tense: null, firstPerson: [], thirdPerson: false, clauses: [] };
+      sentences.push(sentence);
+    }
+    sentence.end = token.end;
+    if (quotes[i] !== 0) continue;
+
+    const lower = token.text.toLowerCase();
+    // "US" is the country.
+    if (FIRST_PERSON.has(lower) && token.text !== "US") sentence.firstPerson.push(token);
+    if (THIRD_PERSON.has(lower) || token.readings.some((r) => r.pos === "NNP")) sentence.thirdPerson = true;
+
+    if (!isHead(tokens, i)) continue;
+    const verbs = governedVerbs(tokens, i).flatMap(({ token, guess }) => {
+      const verb = analyzeVerb(token, guess);
+      return verb && quotes[tokens.indexOf(token)] === 0 ? [{ token, verb }] : [];
+    });
+    if (verbs.length === 0) continue;
+    sentence.clauses.push({ subject: token, verbs });
+    sentence.tense ??= verbs.find((v) => v.verb.tense)?.verb.tense ?? null;
+  }
+
+  const analysis = { tokens, quotes, sentences };
+  if (cache.size >= CACHE_LIMIT) cache.clear();
+  cache.set(text, analysis);
+  return analysis;
+}
+
+/**
+ * The person and tense most of the narration in `paragraphs` uses. First person wins once
+ * a fair share of sentences refer to the narrator (third-person sentences are normal in a
+ * first-person story too); tense takes a clear majority. Null when there is too little.
+ */
+export function inferNarrative(paragraphs: string[]): { person: NarrativePerson | null; tense: NarrativeTense | null } {
+  let first = 0;
+  let third = 0;
+  const tenses = { past: 0, present: 0 };
+  for (const text of paragraphs) {
+    for (const sentence of analyzeNarration(text).sentences) {
+      if (sentence.firstPerson.length > 0) first++;
+      else if (sentence.thirdPerson) third++;
+      if (sentence.tense) tenses[sentence.tense]++;
+    }
+  }
+
+  let person: NarrativePerson | null = null;
+  if (first >= 2 && first >= 0.3 * (first + third)) person = "first";
+  else if (third >= 3) person = "third";
+
+  const total = tenses.past + tenses.present;
+  const major: NarrativeTense = tenses.past >= tenses.present ? "past" : "present";
+  const tense = total >= 3 && tenses[major] >= 0.6 * total ? major : null;
+  return { person, tense };
+}
+
+/**
+ * The third-person set the narration of `text` uses most for one person, out of `sets`
+ * (e.g. he/him and she/her); what "I" becomes when no narrator is registered.
+ */
+export function dominantPronouns(text: string, sets: PronounSet[]): PronounSet | null {
+  const { tokens, quotes } = analyzeNarration(text);
+  let best: PronounSet | null = null;
+  let bestCount = 0;
+  for (const set of sets) {
+    const words = new Set(Object.values(set).map((w) => w.toLowerCase()).filter(Boolean));
+    const count = tokens.filter((t, i) => quotes[i] === 0 && words.has(t.text.toLowerCase())).length;
+    if (count > bestCount) [best, bestCount] = [set, count];
+  }
+  return best;
+}
+
+export type NarrativeDeviation = {
+  start: number;
+  end: number;
+  person: boolean; // slips out of the story's person
+  tense: boolean; // slips out of its tense
+  replacement: string | null; // the sentence rewritten; null if it can't be
+};
+
+export type NarrativeOptions = {
+  person: NarrativePerson | null;
+  tense: NarrativeTense | null;
+  // Third-person story: the set "I"/"me"/"my" become. First-person story: the narrator's
+  // pronouns in the text (by the coreference resolver), which become "I"/"me"/"my".
+  narratorPronouns?: PronounSet | null;
+  narratorMentions?: Array<{ offset: number; form: PronounForm | null }>;
+};
+
+// "I" is always capitalized, so only the first word of a sentence keeps a capital.
+function matchWordCase(value: string, token: TaggedToken, firstWord: TaggedToken | undefined) {
+  if (value === "I") return value;
+  return token === firstWord ? value[0].toUpperCase() + value.slice(1) : value.toLowerCase();
+}
+
+/**
+ * Sentences of `text` whose narration leaves the story's person or tense, each with a
+ * rewrite: pronouns swapped ("I" ↔ the narrator's pronouns) and finite verbs re-inflected
+ * for the new subject and tense ("I walk" → "she walked").
+ */
+export function findNarrativeDeviations(text: string, options: NarrativeOptions): NarrativeDeviation[] {
+  const { tokens, quotes, sentences } = analyzeNarration(text);
+  const deviations: NarrativeDeviation[] = [];
+
+  for (const sentence of sentences) {
+    const inSentence = (offset: number) => offset >= sentence.start && offset < sentence.end;
+    const firstWord = tokens.find((t) => inSentence(t.start) && /\p{L}/u.test(t.text));
+    // Token start → new text; a missing target form leaves the word as it is.
+    const edits = new Map<number, { token: TaggedToken; value: string }>();
+    let person = false;
+
+    if (options.person === "third" && sentence.firstPerson.length > 0) {
+      person = true;
+      for (const token of sentence.firstPerson) {
+        const { form, plural } = FIRST_PERSON.get(token.text.toLowerCase())!;
+        const value = plural ? WE_BECOME[form] : options.narratorPronouns?.[form];
+        if (value) edits.set(token.start, { token, value: matchWordCase(value, token, firstWord) });
+      }
+    }
+    if (options.person === "first") {
+      for (const mention of options.narratorMentions ?? []) {
+        const index = tokens.findIndex((t) => t.start === mention.offset);
+        if (index < 0 || quotes[index] !== 0 || !inSentence(mention.offset)) continue;
+        person = true;
+        if (mention.form) {
+          const value = matchWordCase(NARRATOR_FORMS[mention.form], tokens[index], firstWord);
+          edits.set(mention.offset, { token: tokens[index], value });
+        }
+      }
+    }
+    const tense = !!options.tense && !!sentence.tense && sentence.tense !== options.tense;
+    if (!person && !tense) continue;
+
+    for (const clause of sentence.clauses) {
+      const subjectChanged = edits.has(clause.subject.start);
+      const subject = edits.get(clause.subject.start)?.value ?? clause.subject.text;
+      // Nouns and names conjugate like "she", plural nouns like "they".
+      let agreement = agreementClass(subject);
+      if (!SUBJECT_PRONOUNS.has(subject.toLowerCase()) && clause.subject.readings.some((r) => r.pos === "NNS")) {
+        agreement = "plural";
+      }
+      for (const { token, verb } of clause.verbs) {
+        if (!verb.tense || (!tense && !subjectChanged)) continue;
+        const form = inflect(verb, tense ? options.tense! : verb.tense, agreement);
+        if (form !== token.text.toLowerCase().replace(/’/g, "'")) {
+          edits.set(token.start, { token, value: matchVerbCase(form, token.text) });
+        }
+      }
+    }
+
+    let replacement = "";
+    let cursor = sentence.start;
+    for (const { token, value } of [...edits.values()].sort((a, b) => a.token.start - b.token.start)) {
+      replacement += text.slice(cursor, token.start) + value;
+      cursor = token.end;
+    }
+    replacement += text.slice(cursor, sentence.end);
+    deviations.push({
+      start: sentence.start,
+      end: sentence.end,
+      person,
+      tense,
+      replacement: edits.size > 0 ? replacement : null,
+    });
+  }
+  return deviations;
+}
@@ -0,0 +1,181 @@
+import { splitSentences, Token, tokenize } from "./tokenizer";
+
+// ------------------------- Lexicon POS tagger + lemmatizer (English) ----------------------------
+
+/**
+ * One possible analysis of a token. Tags follow the Penn Treebank set LanguageTool uses
+ * for English (NN, NNS, NNP, VB, VBD, VBG, VBN, VBP, VBZ, JJ, RB, IN, DT, PRP, PRP$, MD, …).
+ */
+export type Reading = {
+  pos: string;
+  lemma: string;
+};
+
+export type TaggedToken = Token & {
+  sentence: number; // index into the paragraph's sentences
+  readings: Reading[]; // ambiguous words keep several; patterns match if any reading does
+};
+
+const CLOSED_CLASS: Record<string, string[]> = {
+  DT: ["the", "a", "an", "this", "that", "these", "those", "every", "each", "some", "any", "no", "another", "all", "both", "either", "neither"],
+  PRP: ["i", "you", "he", "she", "it", "we", "they", "me", "him", "her", "us", "them", "myself", "yourself", "himself", "herself", "itself", "ourselves", "themselves", "themself", "xe", "xem", "ze", "zir"],
+  "PRP$": ["my", "your", "his", "her", "its", "our", "their", "xyr"],
+  IN: ["of", "in", "on", "at", "by", "for", "with", "about", "against", "between", "into", "through", "during", "before", "after", "above", "below", "from", "up", "down", "out", "off", "over", "under", "since", "until", "while", "because", "although", "though", "if", "than", "as", "like", "without", "within", "upon", "toward", "towards", "across", "behind", "beyond", "near", "whether"],
+  CC: ["and", "or", "but", "nor", "yet", "so"],
+  TO: ["to"],
+  MD: ["can", "could", "may", "might", "must", "shall", "should", "will", "would"],
+  WDT: ["which", "whatever"],
+  WP: ["who", "whom", "what"],
+  "WP$": ["whose"],
+  WRB: ["when", "where", "why", "how"],
+  EX: ["there"],
+  RB: ["not", "n't", "very", "too", "also", "just", "only", "really", "quite", "almost", "always", "never", "often", "still", "already", "even", "here", "there", "then", "now", "soon", "again", "ever", "rather", "well", "fast", "hard", "late", "early", "away", "back", "perhaps", "maybe", "so"],
+  JJ: ["good", "bad", "big", "small", "new", "old", "great", "little", "long", "high", "young", "large", "important", "different", "happy", "sad", "quick", "slow", "fast", "late", "early", "hard", "right", "wrong", "sure", "real", "whole", "free", "full", "friendly", "lovely", "lonely", "ugly", "silly", "likely"],
+  UH: ["oh", "hey", "ah", "yes", "yeah", "okay", "ok", "wow", "hello"],
+};
+
+// Nouns ending in what look like verb/adverb suffixes.
+const NOUNS = ["family", "thing", "morning", "evening", "ceiling", "king", "ring", "string", "wing", "news", "bus", "series", "species", "lens", "need", "bed", "seed", "speed", "word"];
+
+// base: [past, past participle]
+const IRREGULAR_VERBS: Record<string, [string, string]> = {
+  say: ["said", "said"], go: ["went", "gone"], get: ["got", "gotten"], make: ["made", "made"], know: ["knew", "known"],
+  think: ["thought", "thought"], take: ["took", "taken"], see: ["saw", "seen"], come: ["came", "come"], give: ["gave", "given"],
+  find: ["found", "found"], tell: ["told", "told"], become: ["became", "become"], leave: ["left", "left"], feel: ["felt", "felt"],
+  bring: ["brought", "brought"], begin: ["began", "begun"], keep: ["kept", "kept"], hold: ["held", "held"], write: ["wrote", "written"],
+  stand: ["stood", "stood"], hear: ["heard", "heard"], let: ["let", "let"], mean: ["meant", "meant"], set: ["set", "set"],
+  meet: ["met", "met"], run: ["ran", "run"], pay: ["paid", "paid"], sit: ["sat", "sat"], speak: ["spoke", "spoken"],
+  lead: ["led", "led"], read: ["read", "read"], grow: ["grew", "grown"], lose: ["lost", "lost"], fall: ["fell", "fallen"],
+  send: ["sent", "sent"], build: ["built", "built"], understand: ["understood", "understood"], draw: ["drew", "drawn"],
+  break: ["broke", "broken"], spend: ["spent", "spent"], cut: ["cut", "cut"], rise: ["rose", "risen"], drive: ["drove", "driven"],
+  buy: ["bought", "bought"], wear: ["wore", "worn"], choose: ["chose", "chosen"], throw: ["threw", "thrown"], catch: ["caught", "caught"],
+  eat: ["ate", "eaten"], sleep: ["slept", "slept"], win: ["won", "won"], fight: ["fought", "fought"], sing: ["sang", "sung"],
+  teach: ["taught", "taught"], forget: ["forgot", "forgotten"], hide: ["hid", "hidden"], shake: ["shook", "shaken"], sell: ["sold", "sold"],
+  steal: ["stole", "stolen"], ride: ["rode", "ridden"], fly: ["flew", "flown"], put: ["put", "put"], shut: ["shut", "shut"],
+  hit: ["hit", "hit"], lie: ["lay", "lain"], lay: ["laid", "laid"], tear: ["tore", "torn"], swim: ["swam", "swum"],
+};
+
+const AUXILIARIES: Record<string, Reading[]> = {
+  be: [{ pos: "VB", lemma: "be" }], am: [{ pos: "VBP", lemma: "be" }], is: [{ pos: "VBZ", lemma: "be" }],
+  are: [{ pos: "VBP", lemma: "be" }], was: [{ pos: "VBD", lemma: "be" }], were: [{ pos: "VBD", lemma: "be" }],
+  been: [{ pos: "VBN", lemma: "be" }], being: [{ pos: "VBG", lemma: "be" }],
+  have: [{ pos: "VB", lemma: "have" }, { pos: "VBP", lemma: "have" }], has: [{ pos: "VBZ", lemma: "have" }],
+  had: [{ pos: "VBD", lemma: "have" }, { pos: "VBN", lemma: "have" }], having: [{ pos: "VBG", lemma: "have" }],
+  do: [{ pos: "VB", lemma: "do" }, { pos: "VBP", lemma: "do" }], does: [{ pos: "VBZ", lemma: "do" }],
+  did: [{ pos: "VBD", lemma: "do" }], done: [{ pos: "VBN", lemma: "do" }], doing: [{ pos: "VBG", lemma: "do" }],
+};
+
+// "walk" → "walks", "try" → "tries", "go" → "goes".
+export function thirdPerson(base: string) {
+  if (/(s|x|z|ch|sh|o)$/.test(base)) return base + "es";
+  if (/[^aeiou]y$/.test(base)) return base.slice(0, -1) + "ies";
+  return base + "s";
+}
+
+// "walk" → "walked", "stop" → "stopped", "go" → "went".
+export function pastTense(base: string) {
+  if (Object.prototype.hasOwnProperty.call(IRREGULAR_VERBS, base)) return IRREGULAR_VERBS[base][0];
+  if (base.endsWith("e")) return base + "d";
+  if (/[^aeiou]y$/.test(base)) return base.slice(0, -1) + "ied";
+  if (/^[^aeiou]*[aeiou][bdgmnprt]$/.test(base)) return base + base.slice(-1) + "ed"; // stop → stopped
+  return base + "ed";
+}
+
+function presentParticiple(base: string) {
+  if (base.endsWith("ie")) return base.slice(0, -2) + "ying";
+  if (/[^aeiou]e$/.test(base) && base !== "be") return base.slice(0, -1) + "ing";
+  if (/^[^aeiou]*[aeiou][bdgmnprt]$/.test(base)) return base + base.slice(-1) + "ing"; // run → running
+  return base + "ing";
+}
+
+// Word form → readings, built once from the tables above.
+const LEXICON = new Map<string, Reading[]>();
+
+function addReading(word: string, reading: Reading) {
+  const readings = LEXICON.get(word) ?? [];
+  if (!readings.some((r) => r.pos === reading.pos && r.lemma === reading.lemma)) readings.push(reading);
+  LEXICON.set(word, readings);
+}
+
+for (const [pos, words] of Object.entries(CLOSED_CLASS)) {
+  for (const word of words) addReading(word, { pos, lemma: word });
+}
+for (const word of NOUNS) addReading(word, { pos: "NN", lemma: word });
+for (const [word, readings] of Object.entries(AUXILIARIES)) readings.forEach((r) => addReading(word, r));
+for (const [base, [past, participle]] of Object.entries(IRREGULAR_VERBS)) {
+  addReading(base, { pos: "VB", lemma: base });
+  addReading(base, { pos: "VBP", lemma: base });
+  addReading(thirdPerson(base), { pos: "VBZ", lemma: base });
+  addReading(presentParticiple(base), { pos: "VBG", lemma: base });
+  addReading(past, { pos: "VBD", lemma: base });
+  addReading(participle, { pos: "VBN", lemma: base });
+}
+
+// In the lexicon, i.e. a closed-class word or a listed verb form rather than a guess.
+export function isKnownWord(word: string): boolean {
+  return LEXICON.has(word.toLowerCase());
+}
+
+/**
+ * Undo a regular suffix: "stopped" → "stop", "baked" → "bake", "tries" → "try".
+ */
+export function stripSuffix(word: string, suffix: "s" | "ed" | "ing"): string {
+  if (suffix === "s") {
+    if (word.endsWith("ies") && word.length > 4) return word.slice(0, -3) + "y";
+    if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+    return word.slice(0, -1);
+  }
+  if (suffix === "ed" && word.endsWith("ied")) return word.slice(0, -3) + "y";
+  const stem = word.slice(0, -suffix.length);
+  if (/([bdgklmnprt])\1$/.test(stem) && !/(ll|ss)$/.test(stem)) return stem.slice(0, -1); // stopped → stop
+  // Silent e dropped before the suffix: baked, loved, danced, raised, arriving.
+  if (/[^aeiou][aeiou][^aeiouwxy]$/.test(stem) && stem.length <= 4 && !/(en|er|on)$/.test(stem)) return stem + "e";
+  if (/([vcz]|[aeiou]s)$/.test(stem)) return stem + "e";
+  return stem;
+}
+
+function guessReadings(word: string, lower: string, sentenceInitial: boolean): Reading[] {
+  if (/^\p{N}/u.test(word)) return [{ pos: "CD", lemma: lower }];
+  if (!/\p{L}/u.test(word)) return [{ pos: word, lemma: word }]; // punctuation is its own tag, as in LT
+  if (/^\p{Lu}/u.test(word) && !sentenceInitial) return [{ pos: "NNP", lemma: word }];
+
+  if (lower.endsWith("ly") && lower.length > 4) return [{ pos: "RB", lemma: lower }];
+  if (lower.endsWith("ing") && lower.length > 5) {
+    return [{ pos: "VBG", lemma: stripSuffix(lower, "ing") }, { pos: "NN", lemma: lower }];
+  }
+  if (lower.endsWith("ed") && lower.length > 4) {
+    const lemma = stripSuffix(lower, "ed");
+    return [{ pos: "VBD", lemma }, { pos: "VBN", lemma }, { pos: "JJ", lemma: lower }];
+  }
+  if (/(ous|ful|able|ible|ive|al|ic|less|ish)$/.test(lower) && lower.length > 5) return [{ pos: "JJ", lemma: lower }];
+  if (/(tion|sion|ness|ment|ity|ship|hood|ism|ist|er|or)$/.test(lower) && lower.length > 5) return [{ pos: "NN", lemma: lower }];
+  if (lower.endsWith("s") && !/(ss|us|is)$/.test(lower) && lower.length > 3) {
+    const lemma = stripSuffix(lower, "s");
+    return [{ pos: "NNS", lemma }, { pos: "VBZ", lemma }];
+  }
+  return [{ pos: "NN", lemma: lower }];
+}
+
+/**
+ * Tokenize, split into sentences and tag `text`. Unknown words get suffix-based guesses;
+ * a bare noun guess after "to" or a modal also gets a verb reading ("to walk", "can run").
+ */
+export function tagText(text: string): TaggedToken[] {
+  const sentences = splitSentences(text);
+  const tokens: TaggedToken[] = [];
+  let sentence = 0;
+
+  for (const token of tokenize(text)) {
+    while (sentence < sentences.length - 1 && token.start >= sentences[sentence].end) sentence++;
+    const previous = tokens[tokens.length - 1];
+    const sentenceInitial = !previous || previous.sentence !== sentence || /^[“"‘'(—-]$/.test(previous.text);
+    const lower = token.text.toLowerCase();
+    const readings = [...(LEXICON.get(lower) ?? guessReadings(token.text, lower, sentenceInitial))];
+
+    if (previous?.readings.some((r) => r.pos === "TO" || r.pos === "MD") && readings.every((r) => r.pos === "NN")) {
+      readings.push({ pos: "VB", lemma: lower });
+    }
+    tokens.push({ ...token, sentence, readings });
+  }
+  return tokens;
+}
@@ -0,0 +1,110 @@
+import { toUnicodeRegExp } from "../language";
+import { TokenPattern } from "../suggestions";
+import { Reading, TaggedToken } from "./tagger";
+
+// ------------------------- Token pattern matching ----------------------------
+// Kept free of DOM imports: token rules also run inside the rule worker.
+
+export type TokenMatch = {
+  tokens: TaggedToken[]; // one per pattern element
+  start: number; // offsets of the marked tokens
+  end: number;
+};
+
+type CompiledToken = {
+  matches: (token: TaggedToken) => boolean;
+  skip: number;
+};
+
+// Whole-string, case-insensitive; Unicode-aware where the source allows it.
+function anchored(source: string): RegExp {
+  try {
+    return toUnicodeRegExp(`^(?:${source})$`, "i");
+  } catch {
+    return new RegExp(`^(?:${source})$`, "i");
+  }
+}
+
+function compileToken(pattern: TokenPattern): CompiledToken {
+  const text = pattern.text ?? "";
+  const textRe = text && pattern.regexp ? anchored(text) : null;
+  const textMatches = (value: string) => (textRe ? textRe.test(value) : value.toLowerCase() === text.toLowerCase());
+  const posRe = pattern.postag && pattern.postagRegexp ? anchored(pattern.postag) : null;
+  const posMatches = (reading: Reading) => (posRe ? posRe.test(reading.pos) : reading.pos === pattern.postag);
+
+  // With `inflected`, the lemma and the tag have to come from the same reading.
+  const readingMatches = (reading: Reading) => {
+    if (pattern.inflected && text && textMatches(reading.lemma) === !!pattern.negate) return false;
+    return !pattern.postag || posMatches(reading) !== !!pattern.negatePos;
+  };
+  const exceptions = (pattern.exceptions ?? []).map(compileToken);
+
+  return {
+    skip: pattern.skip ?? 0,
+    matches(token) {
+      if (!pattern.inflected && text && textMatches(token.text) === !!pattern.negate) return false;
+      if (pattern.postag && pattern.negatePos) {
+        if (!token.readings.every(readingMatches)) return false;
+      } else if (!token.readings.some(readingMatches)) {
+        return false;
+      }
+      return !exceptions.some((exception) => exception.matches(token));
+    },
+  };
+}
+
+/**
+ * Why a token pattern can't be used, or null if it's fine.
+ */
+export function validateTokenPattern(tokens: TokenPattern[]): string | null {
+  if (tokens.length === 0) return "The pattern has no tokens.";
+  if (tokens.every((t) => !t.text && !t.postag)) return "Every token matches any word; it would flag everything.";
+  for (const token of [...tokens, ...tokens.flatMap((t) => t.exceptions ?? [])]) {
+    try {
+      if (token.regexp && token.text) anchored(token.text);
+      if (token.postagRegexp && token.postag) anchored(token.postag);
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }
+  return null;
+}
+
+/**
+ * Compile `tokens` into a function finding their matches in tagged text. Matches never
+ * cross a sentence boundary and don't overlap; skips take the nearest candidate first.
+ */
+export function compileTokenPattern(tokens: TokenPattern[]): (tagged: TaggedToken[]) => TokenMatch[] {
+  const compiled = tokens.map(compileToken);
+  const marked = tokens.some((t) => t.marker) ? tokens.map((t) => !!t.marker) : tokens.map(() => true);
+  const firstMarked = marked.indexOf(true);
+  const lastMarked = marked.lastIndexOf(true);
+
+  return (tagged) => {
+    // Indices into `tagged`, one per element, or null.
+    const matchFrom = (element: number, at: number): number[] | null => {
+      if (at >= tagged.length || !compiled[element].matches(tagged[at])) return null;
+      if (element === compiled.length - 1) return [at];
+      const skip = compiled[element].skip;
+      for (let next = at + 1; next < tagged.length && tagged[next].sentence === tagged[at].sentence; next++) {
+        if (skip >= 0 && next > at + 1 + skip) break;
+        const rest = matchFrom(element + 1, next);
+        if (rest) return [at, ...rest];
+      }
+      return null;
+    };
+
+    const matches: TokenMatch[] = [];
+    for (let i = 0; i < tagged.length; i++) {
+      const indices = matchFrom(0, i);
+      if (!indices) continue;
+      matches.push({
+        tokens: indices.map((index) => tagged[index]),
+        start: tagged[indices[firstMarked]].start,
+        end: tagged[indices[lastMarked]].end,
+      });
+      i = indices[indices.length - 1];
+    }
+    return matches;
+  };
+}
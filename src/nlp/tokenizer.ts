@@ -0,0 +1,47 @@
+// ------------------------- Tokenizer + sentence splitter ----------------------------
+
+export type Token = {
+  text: string;
+  start: number; // offset in the paragraph text
+  end: number;
+};
+
+export type SentenceSpan = {
+  start: number;
+  end: number;
+};
+
+// Abbreviations whose trailing period does not end a sentence (lowercase, without the final ".").
+export const ABBREVIATIONS = new Set(["e.g", "i.e", "etc", "vs", "cf", "approx", "ca", "mr", "mrs", "ms", "dr", "st"]);
+
+// Words keep inner apostrophes and hyphens ("don't", "well-known"); anything else that
+// isn't whitespace is a token of its own ("," "“" "—"), except runs like "..." or "?!".
+const TOKEN_RE = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*|\.{2,}|[!?]+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(TOKEN_RE), (m) => ({
+    text: m[0],
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+}
+
+/**
+ * Sentence boundaries: after `.`, `!`, `?` or `…` (plus any closing quotes/brackets)
+ * followed by whitespace, unless the period ends a known abbreviation or an initial.
+ */
+export function splitSentences(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  let start = 0;
+  for (const m of text.matchAll(/([.!?…]+)["”’)\]]*(?=\s+|$)/gu)) {
+    const end = (m.index ?? 0) + m[0].length;
+    if (m[1] === ".") {
+      const word = text.slice(start, m.index).match(/(\S+)$/)?.[1].toLowerCase() ?? "";
+      if (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word)) continue;
+    }
+    if (text.slice(start, end).trim()) spans.push({ start, end });
+    start = end;
+  }
+  if (text.slice(start).trim()) spans.push({ start, end: text.length });
+  return spans;
+}
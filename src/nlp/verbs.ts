@@ -0,0 +1,124 @@
+import { isKnownWord, pastTense, TaggedToken, thirdPerson } from "./tagger";
+
+// ------------------------- Finite verbs: analysis + inflection (English) ----------------------------
+
+export type Tense = "past" | "present";
+
+// How a subject conjugates: "I am", "she is", "they are".
+export type AgreementClass = "first" | "singular" | "plural";
+
+export type FiniteVerb = {
+  lemma: string; // "be", "have", "do", a modal ("will") or the verb's base form
+  tense: Tense | null; // null when the form doesn't tell ("put", "would")
+  negative: boolean; // "isn't", "won't"
+};
+
+// Auxiliary forms → lemma + tense. Past modals are left tenseless: "would"/"could" are as
+// often conditional as they are past.
+const AUXILIARIES = new Map<string, Omit<FiniteVerb, "negative">>(Object.entries({
+  am: { lemma: "be", tense: "present" },
+  is: { lemma: "be", tense: "present" },
+  are: { lemma: "be", tense: "present" },
+  was: { lemma: "be", tense: "past" },
+  were: { lemma: "be", tense: "past" },
+  has: { lemma: "have", tense: "present" },
+  have: { lemma: "have", tense: "present" },
+  had: { lemma: "have", tense: "past" },
+  does: { lemma: "do", tense: "present" },
+  do: { lemma: "do", tense: "present" },
+  did: { lemma: "do", tense: "past" },
+  will: { lemma: "will", tense: "present" },
+  can: { lemma: "can", tense: "present" },
+  may: { lemma: "may", tense: "present" },
+  shall: { lemma: "shall", tense: "present" },
+  would: { lemma: "will", tense: null },
+  could: { lemma: "can", tense: null },
+  might: { lemma: "may", tense: null },
+  should: { lemma: "shall", tense: null },
+  must: { lemma: "must", tense: null },
+}));
+
+const MODAL_PAST = new Map(Object.entries({ will: "would", can: "could", may: "might", shall: "should", must: "must" }));
+
+// Negative contractions that aren't just the positive form plus "n't".
+const IRREGULAR_NEGATIVES = new Map(Object.entries({ "won't": "will", "can't": "can", "shan't": "shall" }));
+
+function normalize(word: string) {
+  return word.toLowerCase().replace(/’/g, "'");
+}
+
+export function agreementClass(subject: string): AgreementClass {
+  const lower = subject.toLowerCase();
+  if (lower === "i") return "first";
+  return ["we", "you", "they"].includes(lower) ? "plural" : "singular";
+}
+
+/**
+ * Whether `word` is an auxiliary that agrees with its subject, and so can be inverted
+ * before it ("Is he…", "Don't they…").
+ */
+export function isInflectedAuxiliary(word: string): boolean {
+  const verb = analyzeWord(normalize(word));
+  return !!verb && ["be", "have", "do"].includes(verb.lemma);
+}
+
+function analyzeWord(lower: string): FiniteVerb | null {
+  const negative = IRREGULAR_NEGATIVES.get(lower) ?? (lower.endsWith("n't") ? lower.slice(0, -3) : undefined);
+  const auxiliary = AUXILIARIES.get(negative ?? lower);
+  return auxiliary ? { ...auxiliary, negative: negative !== undefined } : null;
+}
+
+/**
+ * `token` as a finite verb, or null if it can't be one. `guess` lets an unknown bare word
+ * ("walk") count as a present-tense verb, which only holds right after its subject.
+ */
+export function analyzeVerb(token: TaggedToken, guess = false): FiniteVerb | null {
+  const lower = normalize(token.text);
+  const auxiliary = analyzeWord(lower);
+  if (auxiliary) return auxiliary;
+  // Other forms of be/have/do ("been", "having") aren't finite.
+  if (token.readings.some((r) => ["be", "have", "do"].includes(r.lemma))) return null;
+
+  const present = token.readings.find((r) => r.pos === "VBZ" || r.pos === "VBP");
+  const past = token.readings.find((r) => r.pos === "VBD");
+  if (present && past) return { lemma: present.lemma, tense: null, negative: false }; // "put", "let"
+  if (present) return { lemma: present.lemma, tense: "present", negative: false };
+  if (past) return { lemma: past.lemma, tense: "past", negative: false };
+  if (guess && !isKnownWord(lower) && token.readings.every((r) => r.pos === "NN")) {
+    return { lemma: lower, tense: "present", negative: false };
+  }
+  return null;
+}
+
+/**
+ * The form of `verb` in `tense` for a subject of class `agreement`, e.g.
+ * ("be", past, plural) → "were", ("walk", present, singular) → "walks", ("do", present, singular, negative) → "doesn't".
+ */
+export function inflect({ lemma, negative }: FiniteVerb, tense: Tense, agreement: AgreementClass): string {
+  let form: string;
+  if (lemma === "be") {
+    if (tense === "past") form = agreement === "plural" ? "were" : "was";
+    else form = agreement === "first" ? "am" : agreement === "singular" ? "is" : "are";
+  } else if (MODAL_PAST.has(lemma)) {
+    form = tense === "past" ? MODAL_PAST.get(lemma)! : lemma;
+  } else if (tense === "past") {
+    form = lemma === "have" ? "had" : lemma === "do" ? "did" : pastTense(lemma);
+  } else if (agreement === "singular") {
+    form = lemma === "have" ? "has" : thirdPerson(lemma);
+  } else {
+    form = lemma;
+  }
+
+  if (!negative) return form;
+  if (form === "am") return "am not";
+  const irregular = [...IRREGULAR_NEGATIVES].find(([, positive]) => positive === form);
+  return irregular?.[0] ?? `${form}n't`;
+}
+
+/**
+ * `form` written the way `original` is: capitalized, and with a curly apostrophe if it had one.
+ */
+export function matchVerbCase(form: string, original: string): string {
+  if (original.includes("’")) form = form.replace(/'/g, "’");
+  return /^\p{Lu}/u.test(original) ? form[0].toUpperCase() + form.slice(1) : form;
+}
@@ -0,0 +1,161 @@
+import { CustomRule } from "../suggestions";
+import { runCustomRule, validateCustomRule } from "./customRules";
+import type { RuleJob, RuleReply } from "./customRules.worker";
+import { ProviderMatch } from "./types";
+
+// ------------------------- Sandboxed custom rule execution ----------------------------
+
+// How long one rule may take on one text (a paragraph or example). Sane patterns need a few ms.
+export const RULE_TIME_BUDGET_MS = 250;
+
+export type RuleFailure = { ruleId: string; reason: string };
+
+export type CustomRuleRun = {
+  matches: ProviderMatch[][]; // `matches[i]` belongs to `texts[i]`
+  failures: RuleFailure[];
+};
+
+function createWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  return new Worker(new URL("./customRules.worker.ts", import.meta.url), { type: "module" });
+}
+
+/**
+ * Runs custom rules in a Web Worker, one job at a time. A rule that exceeds the budget on
+ * any one text gets the worker terminated and is reported as failed; the remaining rules
+ * continue in a fresh worker. Patterns with nested quantifiers are rejected without running.
+ */
+export function createCustomRuleRunner(budgetMs = RULE_TIME_BUDGET_MS) {
+  let worker: Worker | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  const listeners = new Set<(failures: RuleFailure[]) => void>();
+
+  function discardWorker() {
+    worker?.terminate();
+    worker = null;
+  }
+
+  function runInWorker(
+    rules: CustomRule[],
+    texts: string[],
+    results: ProviderMatch[][],
+    failures: RuleFailure[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (rules.length === 0 || signal?.aborted) return Promise.resolve();
+    worker ??= createWorker();
+    const w = worker;
+    if (!w) {
+      // No Worker support: run inline, unprotected.
+      for (const rule of rules) {
+        try {
+          texts.forEach((text, i) => results[i].push(...runCustomRule(rule, text)));
+        } catch (e) {
+          failures.push({ ruleId: rule.id, reason: `Pattern failed: ${e instanceof Error ? e.message : String(e)}` });
+        }
+      }
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let next = 0;
+      let timer: number | undefined;
+
+      const cleanup = () => {
+        window.clearTimeout(timer);
+        w.removeEventListener("message", onMessage);
+        w.removeEventListener("error", onError);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const arm = () => {
+        window.clearTimeout(timer);
+        timer = window.setTimeout(onTimeout, budgetMs);
+      };
+
+      const onMessage = (event: MessageEvent<RuleReply>) => {
+        if (event.data.type !== "done") {
+          arm();
+          return;
+        }
+        const { index, matches, error } = event.data;
+        if (error !== undefined) failures.push({ ruleId: rules[index].id, reason: `Pattern failed: ${error}` });
+        else matches?.forEach((m, i) => results[i].push(...m));
+        next = index + 1;
+        if (next < rules.length) {
+          arm();
+        } else {
+          cleanup();
+          resolve();
+        }
+      };
+      const onTimeout = () => {
+        cleanup();
+        discardWorker();
+        failures.push({
+          ruleId: rules[next].id,
+          reason: `Disabled: took longer than ${budgetMs} ms on one paragraph, the pattern probably backtracks badly.`,
+        });
+        runInWorker(rules.slice(next + 1), texts, results, failures, signal).then(resolve, reject);
+      };
+      // The worker may be stuck in the middle of a rule; a fresh one is cheaper than waiting.
+      const onAbort = () => {
+        cleanup();
+        discardWorker();
+        resolve();
+      };
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        discardWorker();
+        reject(new Error(`Custom rule worker failed: ${event.message}`));
+      };
+
+      w.addEventListener("message", onMessage);
+      w.addEventListener("error", onError);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const job: RuleJob = { rules, texts };
+      // The clock starts on the worker's "started" reply, not while the worker loads.
+      w.postMessage(job);
+    });
+  }
+
+  async function execute(rules: CustomRule[], texts: string[], signal?: AbortSignal): Promise<CustomRuleRun> {
+    const matches: ProviderMatch[][] = texts.map(() => []);
+    const failures: RuleFailure[] = [];
+    const runnable = rules.filter((rule) => {
+      const problem = validateCustomRule(rule);
+      if (problem) failures.push({ ruleId: rule.id, reason: `Disabled: ${problem}` });
+      return !problem;
+    });
+    await runInWorker(runnable, texts, matches, failures, signal);
+    return { matches, failures };
+  }
+
+  return {
+    run(
+      rules: CustomRule[],
+      texts: string[],
+      { signal, reportFailures = false }: { signal?: AbortSignal; reportFailures?: boolean } = {}
+    ): Promise<CustomRuleRun> {
+      const job = queue.then(() => execute(rules, texts, signal));
+      queue = job.catch(() => undefined);
+      return job.then((run) => {
+        if (reportFailures && run.failures.length > 0 && !signal?.aborted) {
+          listeners.forEach((listener) => listener(run.failures));
+        }
+        return run;
+      });
+    },
+
+    /**
+     * Called with the rules that failed in a reported run (the provider's, not previews).
+     */
+    onFailure(listener: (failures: RuleFailure[]) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export type CustomRuleRunner = ReturnType<typeof createCustomRuleRunner>;
+
+export const customRuleRunner = createCustomRuleRunner();
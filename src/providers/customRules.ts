@@ -0,0 +1,255 @@
+import { toUnicodeRegExp } from "../language";
+import { tagText, TaggedToken } from "../nlp/tagger";
+import { compileTokenPattern, validateTokenPattern } from "../nlp/tokenPatterns";
+import { CustomRule, TokenPattern } from "../suggestions";
+import { ProviderMatch } from "./types";
+
+// ------------------------- Custom (user/AI) rules ----------------------------
+// Kept free of DOM and provider imports: this module also runs inside the rule worker.
+
+export function compileCustomPattern(pattern: string): RegExp {
+  try {
+    return toUnicodeRegExp(pattern, "gi");
+  } catch {
+    // Some patterns are only valid without the `u` flag (e.g. needless escapes like `\-`).
+    return new RegExp(pattern, "gi");
+  }
+}
+
+// `*`, `+`, `{n,}` and `{n,m}`; `?` and `{n}` repeat a bounded number of times.
+const REPEATING_QUANTIFIER = /^(?:[*+]|\{\d+,\d*\})/;
+
+/**
+ * The first group that repeats something that itself repeats, e.g. `(a+)+` or
+ * `(\w+\s?)*`. These backtrack exponentially on near-misses, so they are rejected
+ * before ever running.
+ */
+export function findNestedQuantifier(pattern: string): string | null {
+  const groups: Array<{ start: number; repeats: boolean }> = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    if (ch === "[") {
+      inClass = true;
+    } else if (ch === "(") {
+      groups.push({ start: i, repeats: false });
+    } else if (ch === ")") {
+      const group = groups.pop();
+      const quantifier = pattern.slice(i + 1).match(REPEATING_QUANTIFIER);
+      if (group?.repeats && quantifier) return pattern.slice(group.start, i + 1 + quantifier[0].length);
+      if (group?.repeats && groups.length > 0) groups[groups.length - 1].repeats = true;
+    } else if (REPEATING_QUANTIFIER.test(pattern.slice(i)) && groups.length > 0) {
+      groups[groups.length - 1].repeats = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Why a custom rule pattern can't be used, or null if it's fine. Empty-matching patterns
+ * are rejected too: they would match between every pair of characters.
+ */
+export function validateCustomPattern(pattern: string): string | null {
+  if (!pattern) return "Pattern is empty.";
+  const nested = findNestedQuantifier(pattern);
+  if (nested) return `Nested quantifier ${nested} can take exponential time on some inputs.`;
+  try {
+    const re = compileCustomPattern(pattern);
+    if (re.test("")) return "Pattern matches empty text; it would flag every position.";
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+/**
+ * Why a custom rule can't be used: checks its token pattern if it has one, else its regex.
+ */
+export function validateCustomRule(rule: CustomRule): string | null {
+  return rule.tokens ? validateTokenPattern(rule.tokens) : validateCustomPattern(rule.pattern);
+}
+
+// ---- Replacement templates ----
+
+/**
+ * A regex rule whose replacements are templates: `$1`/`\1`, `$<name>` and `$&` insert
+ * captured text, `$$` is a literal dollar. An empty replacement deletes the match.
+ * Custom rules and most built-in rules are both run through `runTemplateRule`.
+ */
+export type TemplateRule = {
+  pattern: string;
+  message: string;
+  replacements: string[];
+};
+
+type TemplatePiece = { text: string; group: boolean; atStart: boolean };
+
+const TEMPLATE_REF = /\$\$|\$&|\$(\d{1,2})|\$<([^>]+)>|\\(\d)/g;
+
+/**
+ * Split `template` into literal text and captured groups from `m`. References to groups
+ * that don't exist stay literal, as with `String.prototype.replace`.
+ */
+function expandTemplate(template: string, m: RegExpMatchArray): TemplatePiece[] {
+  const pieces: TemplatePiece[] = [];
+  let last = 0;
+  const literal = (text: string) => text && pieces.push({ text, group: false, atStart: false });
+  const group = (value: string | undefined) =>
+    pieces.push({ text: value ?? "", group: true, atStart: !!value && m[0].startsWith(value) });
+
+  for (const ref of template.matchAll(TEMPLATE_REF)) {
+    literal(template.slice(last, ref.index));
+    last = (ref.index ?? 0) + ref[0].length;
+    const index = ref[1] ?? ref[3];
+    if (ref[0] === "$$") literal("$");
+    else if (ref[0] === "$&") group(m[0]);
+    else if (index !== undefined && Number(index) > 0 && Number(index) < m.length) group(m[Number(index)]);
+    else if (ref[2] !== undefined && m.groups && ref[2] in m.groups) group(m.groups[ref[2]]);
+    else literal(ref[0]);
+  }
+  literal(template.slice(last));
+  return pieces;
+}
+
+function upperFirst(text: string) {
+  return text.replace(/^\p{Ll}/u, (c) => c.toUpperCase());
+}
+
+/**
+ * Fill in a replacement template, keeping the match's case: an all-caps match gives an
+ * all-caps replacement, and a capitalized match a capitalized one. Captured text keeps its
+ * own case, except that at the start of a sentence a word capitalized only because it
+ * opened the match is lowercased when the template moves it away from the front
+ * ("Very fast" → "Quickly very" rather than "Quickly Very").
+ */
+export function fillTemplate(template: string, m: RegExpMatchArray, sentenceInitial = false): string {
+  const original = m[0];
+  const pieces = expandTemplate(template, m);
+  if (original.length > 1 && original.toUpperCase() === original && original.toLowerCase() !== original) {
+    return pieces.map((p) => p.text).join("").toUpperCase();
+  }
+
+  let out = "";
+  for (const p of pieces) {
+    const movedFromFront = sentenceInitial && p.group && p.atStart && out.trim() !== "";
+    const capitalizedWord = /^\p{Lu}\p{Ll}*$/u.test(p.text.split(/\s/)[0]);
+    out += movedFromFront && capitalizedWord ? p.text[0].toLowerCase() + p.text.slice(1) : p.text;
+  }
+  return /^\p{Lu}/u.test(original) ? upperFirst(out) : out;
+}
+
+/**
+ * `message` with group references filled in, without any case changes.
+ */
+function fillMessage(message: string, m: RegExpMatchArray): string {
+  return expandTemplate(message, m).map((p) => p.text).join("");
+}
+
+/**
+ * Deleting a word should not leave two spaces (or a space before punctuation) behind:
+ * widen the range over one side's whitespace. Returns the extra text taken on each side.
+ */
+function tidyDeletion(text: string, start: number, end: number): { before: string; after: string } {
+  const spaceBefore = text.slice(0, start).match(/[ \t]+$/)?.[0] ?? "";
+  const spaceAfter = text.slice(end).match(/^[ \t]+/)?.[0] ?? "";
+  const next = text[end + spaceAfter.length];
+  if (spaceBefore && (spaceAfter || next === undefined || /[.,;:!?)\]”’"]/.test(next))) {
+    return { before: spaceBefore, after: "" };
+  }
+  if (spaceAfter && (start === 0 || /[\s(\[“‘"]/.test(text[start - 1]))) return { before: "", after: spaceAfter };
+  return { before: "", after: "" };
+}
+
+/**
+ * Fill in `rule`'s replacements and message for one match spanning `start`–`end`.
+ */
+function toProviderMatch(
+  rule: Omit<TemplateRule, "pattern">,
+  text: string,
+  m: RegExpMatchArray,
+  start: number,
+  end: number
+): ProviderMatch {
+  const sentenceInitial = /(^|[.!?]["”’)]*\s+)$/.test(text.slice(0, start));
+  let values = rule.replacements.map((template) => fillTemplate(template, m, sentenceInitial));
+
+  if (values.includes("")) {
+    // One range serves every alternative, so the others get the taken whitespace back.
+    const extra = tidyDeletion(text, start, end);
+    start -= extra.before.length;
+    end += extra.after.length;
+    values = values.map((v) => (v === "" ? v : extra.before + v + extra.after));
+  }
+
+  return {
+    kind: "grammar",
+    message: fillMessage(rule.message, m),
+    offset: start,
+    length: end - start,
+    replacements: values.map((value) => ({ value })),
+  };
+}
+
+export function runTemplateRule(rule: TemplateRule, text: string, re = compileCustomPattern(rule.pattern)) {
+  const matches: ProviderMatch[] = [];
+  for (const m of text.matchAll(re)) {
+    if (!m[0]) continue;
+    const start = m.index ?? 0;
+    matches.push(toProviderMatch(rule, text, m, start, start + m[0].length));
+  }
+  return matches;
+}
+
+// ---- Token rules ----
+
+/**
+ * Like a `TemplateRule`, but matched token by token against POS-tagged text. In its
+ * templates `$N` is the text of the N-th token and `$&` the flagged text.
+ */
+export type TokenRule = {
+  tokens: TokenPattern[];
+  message: string;
+  replacements: string[];
+};
+
+// The worker runs every rule over the same paragraph in turn; tag it once.
+let lastTagged: { text: string; tokens: TaggedToken[] } | null = null;
+
+function tagOnce(text: string): TaggedToken[] {
+  if (lastTagged?.text !== text) lastTagged = { text, tokens: tagText(text) };
+  return lastTagged.tokens;
+}
+
+export function runTokenRule(rule: TokenRule, text: string, find = compileTokenPattern(rule.tokens)) {
+  return find(tagOnce(text)).map((match) => {
+    const m = Object.assign([text.slice(match.start, match.end), ...match.tokens.map((t) => t.text)], {
+      index: match.start,
+    }) as RegExpMatchArray;
+    return toProviderMatch(rule, text, m, match.start, match.end);
+  });
+}
+
+export function runCustomRule(rule: CustomRule, text: string): ProviderMatch[] {
+  const matches = rule.tokens ? runTokenRule({ ...rule, tokens: rule.tokens }, text) : runTemplateRule(rule, text);
+  return matches.map((m) => ({
+    ...m,
+    ruleId: `CUSTOM_${rule.id}`,
+    category: "Style guide",
+    appliesToDialogue: rule.appliesToDialogue,
+  }));
+}
+
+export function matchCase(desired: string, original: string) {
+  if (original.length > 1 && original.toUpperCase() === original) return desired.toUpperCase();
+  if (original[0]?.toUpperCase() === original[0]) return desired[0].toUpperCase() + desired.slice(1);
+  return desired;
+}
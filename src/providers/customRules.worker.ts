@@ -0,0 +1,34 @@
+import { CustomRule } from "../suggestions";
+import { runCustomRule } from "./customRules";
+import { ProviderMatch } from "./types";
+
+// Runs custom rule patterns off the main thread, so a pattern that backtracks badly can
+// be stopped (by terminating this worker) instead of freezing the editor.
+
+export type RuleJob = { rules: CustomRule[]; texts: string[] };
+
+// "started" once the job arrives (so loading the worker isn't timed), "progress" after each
+// text of a rule, then one "done" per rule, in order: its matches for every text, or why it
+// failed. The runner restarts its clock on each, so the budget is per rule and text.
+export type RuleReply =
+  | { type: "started" }
+  | { type: "progress"; index: number }
+  | { type: "done"; index: number; matches?: ProviderMatch[][]; error?: string };
+
+addEventListener("message", (event: MessageEvent<RuleJob>) => {
+  const { rules, texts } = event.data;
+  const reply = (message: RuleReply) => postMessage(message);
+  reply({ type: "started" });
+  rules.forEach((rule, index) => {
+    try {
+      const matches = texts.map((text) => {
+        const found = runCustomRule(rule, text);
+        reply({ type: "progress", index });
+        return found;
+      });
+      reply({ type: "done", index, matches });
+    } catch (e) {
+      reply({ type: "done", index, error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+});
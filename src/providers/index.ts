@@ -0,0 +1,21 @@
+import { languageToolProvider } from "./languageTool";
+import { localRulesProvider } from "./localRules";
+import { narrativeProvider } from "./narrative";
+import { povProvider } from "./pov";
+import { createProviderRegistry } from "./registry";
+
+export type { ProviderContext, ProviderMatch, SuggestionProvider } from "./types";
+export type { ProviderRegistry } from "./registry";
+export { createProviderRegistry } from "./registry";
+export { languageToolProvider, localRulesProvider, narrativeProvider, povProvider };
+
+/**
+ * The registry the editor consults. Add or remove checkers here (or at runtime via
+ * `providerRegistry.register`) without touching `getSuggestionsForParagraph`.
+ */
+export const providerRegistry = createProviderRegistry([
+  languageToolProvider,
+  localRulesProvider,
+  povProvider,
+  narrativeProvider,
+]);
@@ -0,0 +1,204 @@
+import { LanguageToolConfig } from "../suggestions";
+import { ProviderMatch, SuggestionProvider } from "./types";
+
+// ------------------------- LanguageTool (remote) ----------------------------
+
+type LTMatch = {
+  message: string;
+  offset: number;
+  length: number;
+  replacements: Array<{ value: string }>;
+  rule?: { id: string; issueType?: string; category?: { id: string; name: string } };
+};
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+const env = import.meta.env;
+
+export const DEFAULT_LT_CONFIG: LanguageToolConfig = {
+  baseUrl: env.VITE_LT_BASE_URL || "https://api.languagetool.org",
+  motherTongue: env.VITE_LT_MOTHER_TONGUE || "",
+  username: env.VITE_LT_USERNAME || "",
+  apiKey: env.VITE_LT_API_KEY || "",
+  picky: env.VITE_LT_LEVEL === "picky",
+  enabledRules: splitList(env.VITE_LT_ENABLED_RULES),
+  disabledRules: splitList(env.VITE_LT_DISABLED_RULES),
+  // The public API rejects requests over 20KB; self-hosted servers can raise this.
+  maxChunkLength: Number(env.VITE_LT_MAX_CHUNK_LENGTH) || 10000,
+};
+
+export class LanguageToolError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "LanguageToolError";
+  }
+}
+
+// Categories of advice about register rather than correctness, which speech may ignore.
+const STYLE_CATEGORIES = new Set(["STYLE", "REDUNDANCY", "COLLOQUIALISMS", "REPETITIONS_STYLE", "PLAIN_ENGLISH"]);
+
+const MAX_RETRIES = 3;
+const MIN_CHUNK_LENGTH = 500;
+
+/**
+ * Split `text` into pieces of at most `maxLength`, preferring sentence boundaries, then
+ * whitespace. Each chunk remembers its offset so matches can be mapped back.
+ */
+export function chunkText(text: string, maxLength: number): Array<{ offset: number; text: string }> {
+  const chunks: Array<{ offset: number; text: string }> = [];
+  let offset = 0;
+  while (text.length - offset > maxLength) {
+    const window = text.slice(offset, offset + maxLength);
+    let cut = -1;
+    for (const m of window.matchAll(/[.!?…]["”’)]*\s+/g)) cut = (m.index ?? 0) + m[0].length;
+    if (cut <= 0) cut = window.lastIndexOf(" ") + 1;
+    if (cut <= 0) cut = maxLength;
+    chunks.push({ offset, text: text.slice(offset, offset + cut) });
+    offset += cut;
+  }
+  chunks.push({ offset, text: text.slice(offset) });
+  return chunks;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      window.clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function postCheck(
+  text: string,
+  language: string,
+  config: LanguageToolConfig,
+  disabledCategories: string[],
+  signal?: AbortSignal
+): Promise<LTMatch[]> {
+  const params = new URLSearchParams();
+  params.append("text", text);
+  params.append("language", language);
+  if (config.motherTongue) params.append("motherTongue", config.motherTongue);
+  if (config.username && config.apiKey) {
+    params.append("username", config.username);
+    params.append("apiKey", config.apiKey);
+  }
+  if (config.picky) params.append("level", "picky");
+  // The settings panel can leave empty entries behind while the user is typing.
+  const enabledRules = config.enabledRules.filter(Boolean);
+  const disabledRules = config.disabledRules.filter(Boolean);
+  if (enabledRules.length > 0) params.append("enabledRules", enabledRules.join(","));
+  if (disabledRules.length > 0) params.append("disabledRules", disabledRules.join(","));
+  if (disabledCategories.length > 0) {
+    params.append("disabledCategories", disabledCategories.join(","));
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/v2/check`, {
+      method: "POST",
+      body: params,
+      signal,
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.matches || [];
+    }
+
+    if (response.status === 429 && attempt < MAX_RETRIES) {
+      // Honour Retry-After (seconds) when present, else back off exponentially.
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      await sleep(retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt, signal);
+      continue;
+    }
+
+    throw new LanguageToolError(
+      `LanguageTool responded ${response.status}: ${await response.text().catch(() => response.statusText)}`,
+      response.status
+    );
+  }
+}
+
+export async function getSuggestionsFromLT(
+  text: string,
+  language = "en-US",
+  config: LanguageToolConfig = DEFAULT_LT_CONFIG,
+  disabledCategories: string[] = [],
+  signal?: AbortSignal
+): Promise<LTMatch[]> {
+  const matches: LTMatch[] = [];
+  const pending = chunkText(text, config.maxChunkLength);
+
+  // Sequential on purpose: the public API rate-limits per minute.
+  while (pending.length > 0) {
+    const chunk = pending.shift()!;
+    try {
+      const chunkMatches = await postCheck(chunk.text, language, config, disabledCategories, signal);
+      matches.push(...chunkMatches.map((m) => ({ ...m, offset: m.offset + chunk.offset })));
+    } catch (err) {
+      // Payload too large: retry this chunk in halves.
+      if (err instanceof LanguageToolError && err.status === 413 && chunk.text.length > MIN_CHUNK_LENGTH) {
+        const halves = chunkText(chunk.text, Math.ceil(chunk.text.length / 2));
+        pending.unshift(...halves.map((h) => ({ offset: chunk.offset + h.offset, text: h.text })));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Add a word to the premium account's personal dictionary, so LT stops flagging it
+ * server-side too. The free API has no dictionary; callers filter locally either way.
+ */
+export async function addWordToLTDictionary(word: string, config: LanguageToolConfig = DEFAULT_LT_CONFIG) {
+  if (!config.username || !config.apiKey) return;
+
+  const params = new URLSearchParams();
+  params.append("word", word);
+  params.append("username", config.username);
+  params.append("apiKey", config.apiKey);
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/v2/words/add`, {
+    method: "POST",
+    body: params,
+  });
+  if (!response.ok) {
+    throw new LanguageToolError(`LanguageTool could not add "${word}" to the dictionary`, response.status);
+  }
+}
+
+export const languageToolProvider: SuggestionProvider = {
+  id: "languagetool",
+  kinds: ["grammar"],
+  // Style categories opt out per match.
+  appliesToDialogue: true,
+  async check({ text, settings, languageTool, language, autoDetected, signal }): Promise<ProviderMatch[]> {
+    const disabledLTCategories = [];
+    if (!settings.ltTypos) disabledLTCategories.push("TYPOS");
+    if (!settings.ltGrammar) disabledLTCategories.push("GRAMMAR");
+    if (!settings.ltStyle) disabledLTCategories.push("STYLE");
+    if (!settings.ltPunctuation) disabledLTCategories.push("PUNCTUATION");
+
+    // Undeclared paragraphs use LT's own detector, which beats our stopword guess.
+    const ltLanguage = autoDetected ? "auto" : language;
+    const matches = await getSuggestionsFromLT(text, ltLanguage, languageTool, disabledLTCategories, signal);
+    return matches.map((m) => ({
+      kind: "grammar",
+      message: m.message,
+      offset: m.offset,
+      length: m.length,
+      replacements: m.replacements || [],
+      ruleId: m.rule?.id,
+      category: m.rule?.category?.name,
+      spelling: m.rule?.issueType === "misspelling" || m.rule?.category?.id === "TYPOS",
+      appliesToDialogue: !STYLE_CATEGORIES.has(m.rule?.category?.id ?? ""),
+    }));
+  },
+};
@@ -0,0 +1,292 @@
+import { baseLanguage, toUnicodeRegExp } from "../language";
+import { segmentDialogue } from "../nlp/dialogue";
+import { ABBREVIATIONS } from "../nlp/tokenizer";
+import { compileTokenPattern } from "../nlp/tokenPatterns";
+import { customRuleRunner } from "./customRuleRunner";
+import { compileCustomPattern, matchCase, runTemplateRule, runTokenRule, TemplateRule, TokenRule } from "./customRules";
+import { ProviderMatch, SuggestionProvider } from "./types";
+
+// ------------------------- Local rules (offline) ----------------------------
+
+type LocalRule = {
+  id: string;
+  check: (text: string) => ProviderMatch[];
+  appliesToDialogue?: boolean; // default: true
+};
+
+/**
+ * A built-in rule written like a custom one: a pattern plus replacement templates, run
+ * through the same `runTemplateRule` (capture groups, case keeping, deletion tidying).
+ * Rules that need logic beyond a regex implement `check` by hand instead.
+ */
+function templateRule(id: string, rule: TemplateRule): LocalRule {
+  const re = compileCustomPattern(rule.pattern);
+  return { id, check: (text) => runTemplateRule(rule, text, re) };
+}
+
+// The same for rules over POS-tagged tokens.
+function tokenRule(id: string, rule: TokenRule): LocalRule {
+  const find = compileTokenPattern(rule.tokens);
+  return { id, check: (text) => runTokenRule(rule, text, find) };
+}
+
+/**
+ * "the the". `allowlist` holds words where doubling is usually intentional
+ * ("had had" in English, "nous nous" in French).
+ */
+function createRepeatedWordRule(allowlist: string[]): LocalRule {
+  const allowed = allowlist.length > 0 ? `(?!(?:${allowlist.join("|")})\\b)` : "";
+  const rule = templateRule("REPEATED_WORD", {
+    pattern: `\\b${allowed}(\\w+)\\s+\\1\\b`,
+    message: "Possible typo: you repeated a word.",
+    replacements: ["$1"],
+  });
+  // People repeat themselves when they talk ("no, no, no", "very very").
+  return { ...rule, appliesToDialogue: false };
+}
+
+const doubleSpaceRule = templateRule("DOUBLE_SPACE", {
+  pattern: "(?<=\\S) {2,}(?=\\S)",
+  message: "Possible typo: you repeated a whitespace.",
+  replacements: [" "],
+});
+
+const sentenceCapitalizationRule: LocalRule = {
+  id: "UPPERCASE_SENTENCE_START",
+  check(text) {
+    const matches: ProviderMatch[] = [];
+    // Closing quotes are left out on purpose: `“Stop!” she said.` is a dialogue tag, not a new sentence.
+    // Spanish opens questions/exclamations with ¿ ¡, which may precede the first word.
+    for (const m of text.matchAll(toUnicodeRegExp("(\\S*?)([.!?])\\)?\\s+[¿¡]?(\\p{Ll}\\w*)", "g"))) {
+      const before = m[1].toLowerCase();
+      if (m[2] === "." && (ABBREVIATIONS.has(before) || before.endsWith(".."))) continue;
+      const word = m[3];
+      matches.push({
+        kind: "grammar",
+        message: "This sentence does not start with an uppercase letter.",
+        offset: (m.index ?? 0) + m[0].length - word.length,
+        length: word.length,
+        replacements: [{ value: word[0].toUpperCase() + word.slice(1) }],
+      });
+    }
+    return matches;
+  },
+};
+
+// Quotation marks left open or closed without opening. Speech running on into the next
+// paragraph is left open on purpose, so the message says so.
+const unpairedQuoteRule: LocalRule = {
+  id: "UNPAIRED_QUOTE",
+  check(text) {
+    return segmentDialogue(text).unpaired.map((q) => ({
+      kind: "grammar",
+      message: q.closing
+        ? "This closing quotation mark has no opening one."
+        : "This quotation mark is never closed (fine if the speech continues in the next paragraph).",
+      offset: q.offset,
+      length: 1,
+      replacements: [],
+    }));
+  },
+};
+
+// ---- English ----
+
+// Silent "h": takes "an" despite the consonant letter.
+const AN_BEFORE_CONSONANT_LETTER = /^(hour|honest|hono(u)?r|heir)/i;
+// Vowel letter pronounced "yoo"/"wuh": takes "a".
+const A_BEFORE_VOWEL_LETTER = /^(univers|unicorn|unif|union|uniq|unit|unis|unila|use|usa|usu|uten|uti|ura|ure|uri|uro|eu|ewe|one\b|once\b)/i;
+// Letter names that start with a vowel sound when an initialism is spelled out ("an MBA", "an FBI agent").
+const VOWEL_SOUND_LETTERS = "AEFHILMNORSX";
+
+function startsWithVowelSound(word: string): boolean {
+  const head = word.split("-")[0];
+
+  if (/^\d/.test(head)) {
+    // "an 8", "an 11-year-old", "an 18th"
+    return /^(8|1[18](?!\d))/.test(head);
+  }
+  if (/^[A-Z]{1,5}$/.test(head)) {
+    return VOWEL_SOUND_LETTERS.includes(head[0]);
+  }
+  if (AN_BEFORE_CONSONANT_LETTER.test(word)) return true;
+  if (A_BEFORE_VOWEL_LETTER.test(word)) return false;
+  return /^[aeiou]/i.test(word);
+}
+
+const articleRule: LocalRule = {
+  id: "EN_A_VS_AN",
+  check(text) {
+    const matches: ProviderMatch[] = [];
+    for (const m of text.matchAll(toUnicodeRegExp("\\b(a|an)\\s+([\\w'-]+)", "gi"))) {
+      const start = m.index ?? 0;
+      const article = m[1];
+      // A capital "A" mid-sentence is usually a label ("Plan A is"), not the article.
+      if (article === "A" && start > 0 && !/[.!?"“(]\s*$/.test(text.slice(0, start))) continue;
+
+      const expected = startsWithVowelSound(m[2]) ? "an" : "a";
+      if (article.toLowerCase() === expected) continue;
+
+      matches.push({
+        kind: "grammar",
+        message:
+          expected === "an"
+            ? `Use "an" instead of "a" if the following word starts with a vowel sound, e.g. "an article", "an hour".`
+            : `Use "a" instead of "an" if the following word doesn't start with a vowel sound, e.g. "a sentence", "a university".`,
+        offset: start,
+        length: article.length,
+        replacements: [{ value: matchCase(expected, article) }],
+      });
+    }
+    return matches;
+  },
+};
+
+// "it/she/he were" outside of subjunctive contexts ("if it were", "I wish she were").
+const itWereRule: LocalRule = {
+  ...templateRule("IT_WERE", {
+    pattern: "(?<!\\b(?:if|wish|suppose|that)\\s+)\\b(?<subject>it|she|he)\\s+were\\b",
+    message: `Use "was" for indicative statements with "$<subject>".`,
+    replacements: ["$<subject> was"],
+  }),
+  appliesToDialogue: false, // dialect in speech
+};
+
+// "could of" → "could have". "will", "may" and "can" are also nouns ("the will of the people").
+const modalOfRule: LocalRule = {
+  ...tokenRule("MODAL_OF", {
+    tokens: [{ postag: "MD", exceptions: [{ text: "will|may|can", regexp: true }] }, { text: "of", marker: true }],
+    message: `After "$1", use "have" rather than "of".`,
+    replacements: ["have"],
+  }),
+  appliesToDialogue: false, // "could of" is how some characters talk
+};
+
+/**
+ * Punctuation around a closing quote before a dialogue tag: the comma goes inside
+ * (“Stop,” she said), a full stop becomes a comma, and ! or ? need no comma after them.
+ */
+const dialoguePunctuationRule: LocalRule = {
+  id: "DIALOGUE_PUNCTUATION",
+  check(text) {
+    const matches: ProviderMatch[] = [];
+    for (const passage of segmentDialogue(text).passages) {
+      if (!passage.close || !"”\"’".includes(passage.close)) continue;
+      const mark = passage.end - 1;
+      const last = text[mark - 1];
+      const tag = /^(,?)\s+\p{Ll}/u.exec(text.slice(passage.end));
+      if (!tag) continue;
+
+      if (tag[1] && /[!?…]/.test(last)) {
+        matches.push({
+          kind: "grammar",
+          message: "After a question or exclamation mark, leave out the comma before the dialogue tag.",
+          offset: mark,
+          length: 2,
+          replacements: [{ value: passage.close }],
+        });
+      } else if (tag[1] && /[\p{L}\p{N}]/u.test(last)) {
+        matches.push({
+          kind: "grammar",
+          message: "In dialogue, the comma goes inside the closing quotation mark.",
+          offset: mark,
+          length: 2,
+          replacements: [{ value: `,${passage.close}` }],
+        });
+      } else if (!tag[1] && last === "." && text[mark - 2] !== ".") {
+        const word = text.slice(passage.start, mark - 1).match(/(\S+)$/)?.[1].toLowerCase() ?? "";
+        if (ABBREVIATIONS.has(word) || word.includes(".")) continue; // "Dr.", "U.S."
+        matches.push({
+          kind: "grammar",
+          message: "Dialogue followed by a tag ends with a comma, not a full stop.",
+          offset: mark - 1,
+          length: 1,
+          replacements: [{ value: "," }],
+        });
+      }
+    }
+    return matches;
+  },
+};
+
+// ---- French ----
+
+// "ce arbre" → "cet arbre" (also before a mute h: "cet homme"). An aspirated h keeps "ce" ("ce héros", "ce hibou").
+const frCeCetRule = templateRule("FR_CE_CET", {
+  pattern: "\\bce(?=\\s+[aeiouyàâéèêëîïôûùh]\\w)(?!\\s+h(?:éros|ibou|aricot|asard|ameau|all|aut))",
+  message: "Devant une voyelle ou un h muet, on écrit « cet ».",
+  replacements: ["cet"],
+});
+
+// "si il" → "s'il"
+const frSiIlRule = templateRule("FR_SI_IL", {
+  pattern: "\\bsi\\s+(?<pronoun>ils?)\\b",
+  message: "« si » s'élide devant « il » : écrivez « s'$<pronoun> ».",
+  replacements: ["s'$<pronoun>"],
+});
+
+// ---- Spanish ----
+
+// "y" → "e" before an /i/ sound, "o" → "u" before an /o/ sound ("padre e hijo", "siete u ocho").
+// Diphthongs keep "y": "agua y hielo", "cobre y hierro".
+const esYERule = templateRule("ES_Y_E_O_U", {
+  pattern: "\\by(?=\\s+(?:[ií]|h[ií](?![aeo])))",
+  message: "Delante de una palabra que empieza por el sonido /i/, se escribe «e».",
+  replacements: ["e"],
+});
+
+const esOURule = templateRule("ES_Y_E_O_U", {
+  pattern: "\\bo(?=\\s+h?[oó])",
+  message: "Delante de una palabra que empieza por el sonido /o/, se escribe «u».",
+  replacements: ["u"],
+});
+
+/**
+ * The offline rule packs. Each rule returns LanguageTool-shaped matches so they merge
+ * with remote results (and de-dupe against them) in `getSuggestionsForParagraph`.
+ * Languages without a pack of their own still get the language-neutral rules.
+ */
+const COMMON_RULES: LocalRule[] = [doubleSpaceRule, sentenceCapitalizationRule, unpairedQuoteRule];
+
+export const RULE_PACKS: Record<string, LocalRule[]> = {
+  en: [createRepeatedWordRule(["had", "that"]), ...COMMON_RULES, articleRule, itWereRule, modalOfRule, dialoguePunctuationRule],
+  fr: [createRepeatedWordRule(["nous", "vous"]), ...COMMON_RULES, frCeCetRule, frSiIlRule],
+  es: [createRepeatedWordRule([]), ...COMMON_RULES, esYERule, esOURule],
+};
+
+export function getRulePack(language: string): LocalRule[] {
+  return RULE_PACKS[baseLanguage(language)] ?? [createRepeatedWordRule([]), ...COMMON_RULES];
+}
+
+/**
+ * The built-in rules for `language`. Custom rules go through `customRuleRunner` instead,
+ * since their patterns are not trusted to be fast.
+ */
+export function getLocalGrammarSuggestions(text: string, language = "en-US"): ProviderMatch[] {
+  const matches: ProviderMatch[] = [];
+  for (const rule of getRulePack(language)) {
+    matches.push(
+      ...rule.check(text).map((m) => ({
+        ...m,
+        ruleId: rule.id,
+        category: "Local rules",
+        appliesToDialogue: rule.appliesToDialogue,
+      }))
+    );
+  }
+  return matches;
+}
+
+export const localRulesProvider: SuggestionProvider = {
+  id: "local-rules",
+  kinds: ["grammar"],
+  // Rules (and custom rules) that don't apply to speech say so per match.
+  appliesToDialogue: true,
+  isEnabled: ({ settings }) => settings.localFallbacks,
+  async check({ text, customRules, language, signal }) {
+    const matches = getLocalGrammarSuggestions(text, language);
+    const active = customRules.filter((rule) => !rule.disabled);
+    const run = await customRuleRunner.run(active, [text], { signal, reportFailures: true });
+    return [...matches, ...run.matches[0]];
+  },
+};
@@ -0,0 +1,60 @@
+import { attributePronouns, PRONOUN_PRESETS } from "../characters";
+import { baseLanguage } from "../language";
+import { dominantPronouns, findNarrativeDeviations } from "../nlp/narrative";
+import { ProviderMatch, SuggestionProvider } from "./types";
+
+// ------------------------- Narrative person + tense consistency ----------------------------
+
+// What "I" can become in a third-person story when no narrator is registered.
+const THIRD_PERSON_SETS = PRONOUN_PRESETS.filter((p) => ["he/him", "she/her", "they/them"].includes(p.label)).map(
+  (p) => p.pronouns
+);
+
+/**
+ * Flags sentences whose narration slips out of the story's person or tense (`ctx.narrative`,
+ * declared or inferred over the whole document) and offers the sentence rewritten.
+ * Dialogue in quotes is never flagged.
+ */
+export const narrativeProvider: SuggestionProvider = {
+  id: "narrative",
+  kinds: ["narrative-consistency"],
+  // Characters speak in their own person and tense.
+  appliesToDialogue: false,
+  // Headings are titles, not narration.
+  isEnabled: ({ settings, language, block }) =>
+    settings.narrativeConsistency && baseLanguage(language) === "en" && block !== "heading",
+  check({ text, narrative, characters }) {
+    if (!narrative.person && !narrative.tense) return [];
+    const narrator = characters.find((c) => c.id === narrative.narratorId) ?? null;
+
+    const narratorMentions =
+      narrative.person === "first" && narrator
+        ? attributePronouns(text, characters).pronouns.filter((p) => p.characterId === narrator.id)
+        : [];
+    const deviations = findNarrativeDeviations(text, {
+      person: narrative.person,
+      tense: narrative.tense,
+      narratorPronouns: narrator?.pronouns ?? dominantPronouns(text, THIRD_PERSON_SETS),
+      narratorMentions,
+    });
+
+    return deviations.map((d): ProviderMatch => {
+      const slips = [
+        d.person && `${narrative.person === "first" ? "third" : "first"} person`,
+        d.tense && `${narrative.tense === "past" ? "present" : "past"} tense`,
+      ].filter(Boolean);
+      const told = [narrative.person && `${narrative.person} person`, narrative.tense && `${narrative.tense} tense`]
+        .filter(Boolean)
+        .join(", ");
+      return {
+        kind: "narrative-consistency",
+        message: `The story is told in the ${told}; this sentence slips into the ${slips.join(" and ")}.`,
+        offset: d.start,
+        length: d.end - d.start,
+        replacements: d.replacement !== null ? [{ value: d.replacement }] : [],
+        ruleId: d.person ? "NARRATIVE_PERSON" : "NARRATIVE_TENSE",
+        category: "Narrative",
+      };
+    });
+  },
+};
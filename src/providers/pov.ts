@@ -0,0 +1,372 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { Path, Range } from "slate";
+import {
+  findCharacterAt,
+  getCharacterAlignmentMatches,
+  getPronounChainMatches,
+  pronounLabel,
+  PRONOUN_FORMS,
+  withVerbAgreement,
+} from "../characters";
+import { baseLanguage, toUnicodeRegExp, WORD_CHAR } from "../language";
+import { dialogueAt, DialoguePassage } from "../nlp/dialogue";
+import { Character } from "../suggestions";
+import { ProviderMatch, SuggestionProvider } from "./types";
+
+// -------------------- POV inference + propagation ------------------------
+
+export type POV = "he" | "she" | "they";
+
+const PRONOUNS: Record<POV, { re: RegExp; map: Record<string, string> }> = {
+  he: {
+    // include: he, him, his
+    re: /\b(he|him|his)\b/gi,
+    map: {
+      he: "he",
+      him: "him",
+      his: "his",
+    },
+  },
+  she: {
+    // include: she, her, hers
+    re: /\b(she|her|hers)\b/gi,
+    map: {
+      she: "she",
+      her: "her",
+      hers: "hers",
+    },
+  },
+  they: {
+    // include: they, them, their, theirs (singular they)
+    re: /\b(they|them|their|theirs)\b/gi,
+    map: {
+      they: "they",
+      them: "them",
+      their: "their",
+      theirs: "theirs",
+    },
+  },
+};
+
+const POV_MAP: Record<POV, Record<string, string>> = {
+  he: {
+    // -> he
+    she: "he",
+    her: "him",
+    hers: "his",
+    they: "he",
+    them: "him",
+    their: "his",
+    theirs: "his",
+  },
+  she: {
+    // -> she
+    he: "she",
+    him: "her",
+    his: "her",
+    they: "she",
+    them: "her",
+    their: "her",
+    theirs: "hers",
+  },
+  they: {
+    // -> they
+    he: "they",
+    him: "them",
+    his: "their",
+    she: "they",
+    her: "them", // note: ambiguous; demo only
+    hers: "theirs",
+  },
+};
+
+type PronounTable = {
+  pronouns: Record<POV, { re: RegExp; map: Record<string, string> }>;
+  povMap: Record<POV, Record<string, string>>;
+};
+
+// French: only subject pronouns. "lui", "le/la" and "son/sa" don't carry the referent's gender.
+const FR_PRONOUNS: PronounTable = {
+  pronouns: {
+    he: { re: toUnicodeRegExp("\\b(il)\\b", "gi"), map: { il: "il" } },
+    she: { re: toUnicodeRegExp("\\b(elle)\\b", "gi"), map: { elle: "elle" } },
+    they: { re: toUnicodeRegExp("\\b(iel)\\b", "gi"), map: { iel: "iel" } },
+  },
+  povMap: {
+    he: { elle: "il", iel: "il" },
+    she: { il: "elle", iel: "elle" },
+    they: { il: "iel", elle: "iel" },
+  },
+};
+
+// Spanish: stressed subject/prepositional pronouns only ("la" is also the article).
+const ES_PRONOUNS: PronounTable = {
+  pronouns: {
+    he: { re: toUnicodeRegExp("\\b(él)\\b", "gi"), map: { "él": "él" } },
+    she: { re: toUnicodeRegExp("\\b(ella)\\b", "gi"), map: { ella: "ella" } },
+    they: { re: toUnicodeRegExp("\\b(elle)\\b", "gi"), map: { elle: "elle" } },
+  },
+  povMap: {
+    he: { ella: "él", elle: "él" },
+    she: { "él": "ella", elle: "ella" },
+    they: { "él": "elle", ella: "elle" },
+  },
+};
+
+const PRONOUN_TABLES: Record<string, PronounTable> = {
+  en: { pronouns: PRONOUNS, povMap: POV_MAP },
+  fr: FR_PRONOUNS,
+  es: ES_PRONOUNS,
+};
+
+function getPronounTable(language: string): PronounTable {
+  return PRONOUN_TABLES[baseLanguage(language)] ?? PRONOUN_TABLES.en;
+}
+
+type CharacterAnchor = { text: string; offset: number; isName: boolean; inferredPOV?: POV };
+
+/**
+ * Find the word the user is currently editing or focusing on.
+ */
+function getCharacterAnchorAtCursor(
+  text: string,
+  selection: Range | null,
+  nodes: Array<{ path: Path; start: number; end: number }>,
+  table: PronounTable
+): CharacterAnchor | null {
+  if (!selection) return null;
+  const cursor = selection.anchor;
+
+  let absolute = 0;
+  for (const node of nodes) {
+    if (Path.equals(node.path, cursor.path)) {
+      absolute += cursor.offset;
+      break;
+    }
+    absolute += (node.end - node.start);
+  }
+
+  // Find full word at absolute offset
+  let start = absolute;
+  while (start > 0 && WORD_CHAR.test(text[start - 1])) start--;
+  let end = absolute;
+  while (end < text.length && WORD_CHAR.test(text[end])) end++;
+
+  const word = text.slice(start, end);
+  if (!word || word.length < 2) return null;
+
+  const isName = /^\p{Lu}/u.test(word);
+
+  // Heuristic POV for offline fallback
+  let inferredPOV: POV | undefined;
+  const lower = word.toLowerCase();
+  for (const pov of Object.keys(table.pronouns) as POV[]) {
+    if (table.pronouns[pov].map[lower]) {
+      inferredPOV = pov;
+      break;
+    }
+  }
+
+  return { text: word, offset: start, isName, inferredPOV };
+}
+
+// Result Cache: Key is "paragraphTextHash:anchorWord"
+const aiCache = new Map<string, ProviderMatch[]>();
+
+function describeCharacter(character: Character) {
+  const forms = PRONOUN_FORMS.filter((form) => character.pronouns[form])
+    .map((form) => `${form} "${character.pronouns[form]}"`)
+    .join(", ");
+  const aliases = character.aliases.length > 0 ? ` (also called ${character.aliases.join(", ")})` : "";
+  return `${character.name}${aliases}: ${forms}`;
+}
+
+async function getAIAlignmentForParagraph(
+  text: string,
+  anchor: { text: string; isName: boolean },
+  apiKey: string,
+  language: string,
+  signal?: AbortSignal,
+  // A registered character: its pronouns are given rather than inferred.
+  registry?: { character: Character; characters: Character[] }
+): Promise<ProviderMatch[]> {
+  // Simple cache key
+  const registered = registry ? describeCharacter(registry.character) : "";
+  const cacheKey = `${language}:${text.length}:${text.slice(0, 50)}:${anchor.text}:${registered}`;
+  if (aiCache.has(cacheKey)) return aiCache.get(cacheKey)!;
+
+  try {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+
+    const tasks = registry
+      ? `
+      The registered characters and their pronouns are:
+      ${registry.characters.map(describeCharacter).join("\n      ")}
+
+      Tasks:
+      1. Identify every pronoun in this paragraph that refers to ${registry.character.name} and does not use their registered form.
+      2. Give the registered form of the same kind as the replacement. Leave pronouns of other characters alone.
+      Set "pov" to "unknown" if no pronoun refers to ${registry.character.name}.`
+      : `
+      Tasks:
+      1. Determine if "${anchor.text}" is a character and what their pronouns should be (he, she, or they).
+      2. Identify every OTHER pronoun in this paragraph that refers to THIS character.`;
+
+    const prompt = `
+      Paragraph: "${text}"
+      The paragraph is written in language "${language}"; any replacement must be a pronoun of that language.
+      The user is focused on the character "${registry?.character.name ?? anchor.text}".
+${tasks}
+
+      Return ONLY a JSON object:
+      {
+        "pov": "he" | "she" | "they" | "unknown",
+        "pronouns": [
+          { "offset": number, "length": number, "original": "string", "replacement": "string" }
+        ]
+      }
+    `;
+
+    const result = await model.generateContent(prompt, { signal });
+    const responseText = result.response.text();
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return [];
+
+    const data = JSON.parse(jsonMatch[0]);
+    if (data.pov === "unknown") return [];
+
+    const matches: ProviderMatch[] = [];
+    for (const match of data.pronouns || []) {
+      matches.push({
+        kind: "pov-pronoun-propagation",
+        message: registry
+          ? `AI detected this refers to ${registry.character.name} (${pronounLabel(registry.character.pronouns)}).`
+          : `AI detected this refers to character "${anchor.text}" (POV: ${data.pov}).`,
+        offset: match.offset,
+        length: match.length,
+        replacements: [{ value: matchTokenCase(match.replacement, match.original) }],
+        ruleId: registry ? "POV_CHARACTER_AI" : "POV_PRONOUN_AI",
+        category: "POV",
+      });
+    }
+
+    aiCache.set(cacheKey, matches);
+    return matches;
+  } catch (e) {
+    if (signal?.aborted) return [];
+    console.error("AI alignment failed:", e);
+    return [];
+  }
+}
+
+function matchTokenCase(replacement: string, originalToken: string) {
+  if (originalToken[0] === originalToken[0].toUpperCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+function getPOVPropagationSuggestions(
+  text: string,
+  baseOffset: number,
+  target: POV,
+  table: PronounTable
+): ProviderMatch[] {
+  const matches: ProviderMatch[] = [];
+  const forms = (Object.keys(table.pronouns) as POV[]).flatMap((pov) => Object.keys(table.pronouns[pov].map));
+  const allRe = toUnicodeRegExp(`\\b(${forms.join("|")})\\b`, "gi");
+
+  for (const m of text.matchAll(allRe)) {
+    const start = m.index ?? 0;
+    const token = m[0];
+    const lower = token.toLowerCase();
+
+    if (table.pronouns[target].map[lower]) continue;
+
+    const mapped = table.povMap[target][lower];
+    if (!mapped) continue;
+
+    matches.push({
+      kind: "pov-pronoun-propagation",
+      message: `Align pronouns to ${target} POV (demo heuristic).`,
+      offset: baseOffset + start,
+      length: token.length,
+      replacements: [{ value: matchTokenCase(mapped, token) }],
+      ruleId: "POV_PRONOUN",
+      category: "POV",
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Speech keeps its speaker's point of view: from an anchor in the narration, pronouns in
+ * quotes are left alone, and from inside a quote only that quote is aligned. A pronoun
+ * dropped this way takes the verbs grouped with it along.
+ */
+function onAnchorSide(matches: ProviderMatch[], anchorOffset: number, dialogue: DialoguePassage[]) {
+  const passage = dialogueAt(dialogue, anchorOffset);
+  const dropped = new Set<string | undefined>();
+  const kept = matches.filter((m) => {
+    const keep = dialogueAt(dialogue, m.offset, m.offset + m.length) === passage;
+    if (!keep && m.group) dropped.add(m.group);
+    return keep;
+  });
+  return kept.filter((m) => !m.group || !dropped.has(m.group));
+}
+
+/**
+ * Aligns pronouns with the name or pronoun at the cursor. A registered character gets its
+ * own set; otherwise the model decides, or offline, English pronouns the coreference
+ * resolver links to the anchor's referent (other languages: all subject pronouns).
+ */
+export const povProvider: SuggestionProvider = {
+  id: "pov-propagation",
+  kinds: ["pov-pronoun-propagation"],
+  scope: "cursor",
+  // Pronouns in speech are aligned too, but only on the anchor's side of the quotes (`onAnchorSide`).
+  appliesToDialogue: true,
+  isEnabled: ({ settings }) => settings.povPropagation,
+  async check({ text, nodes, dialogue, selection, characters, apiKey, language, signal }) {
+    const table = getPronounTable(language);
+    const english = baseLanguage(language) === "en";
+    // The model only rewrites pronouns; verbs that agree with a changed subject are added here.
+    const withAgreement = (matches: ProviderMatch[]) => (english ? withVerbAgreement(text, matches, characters) : matches);
+
+    // Synchronously find the anchor word at the cursor
+    const anchor = getCharacterAnchorAtCursor(text, selection, nodes, table);
+    if (!anchor) return [];
+    const onSide = (matches: ProviderMatch[]) => onAnchorSide(matches, anchor.offset, dialogue);
+
+    // A registered character (by name, alias or a pronoun attributed to them) only gets
+    // their own pronouns aligned, to their registered set.
+    const character = findCharacterAt(text, anchor.offset, characters);
+    if (character) {
+      if (apiKey) {
+        return onSide(
+          withAgreement(await getAIAlignmentForParagraph(text, anchor, apiKey, language, signal, { character, characters }))
+        );
+      }
+      return onSide(getCharacterAlignmentMatches(text, character, characters).matches);
+    }
+
+    if (apiKey) {
+      // Single unified AI call (with caching)
+      return onSide(withAgreement(await getAIAlignmentForParagraph(text, anchor, apiKey, language, signal)));
+    }
+
+    if (!anchor.inferredPOV) return [];
+
+    // Offline, English: only pronouns the coreference heuristic links to the anchor's referent.
+    if (english) return onSide(getPronounChainMatches(text, anchor.offset, characters));
+
+    // Other languages: subject pronouns have no tagger support yet, so align them all.
+    const matches: ProviderMatch[] = [];
+    for (const node of nodes) {
+      matches.push(...getPOVPropagationSuggestions(node.text, node.start, anchor.inferredPOV, table));
+    }
+    return onSide(matches);
+  },
+};
@@ -0,0 +1,36 @@
+import { SuggestionProvider } from "./types";
+
+export type ProviderRegistry = {
+  register: (provider: SuggestionProvider) => () => void;
+  unregister: (id: string) => void;
+  list: () => SuggestionProvider[];
+};
+
+/**
+ * Ordered set of providers keyed by id. Registering an existing id replaces it in place.
+ */
+export function createProviderRegistry(initial: SuggestionProvider[] = []): ProviderRegistry {
+  let providers: SuggestionProvider[] = [];
+
+  const unregister = (id: string) => {
+    providers = providers.filter((p) => p.id !== id);
+  };
+
+  const register = (provider: SuggestionProvider) => {
+    const index = providers.findIndex((p) => p.id === provider.id);
+    if (index === -1) {
+      providers = [...providers, provider];
+    } else {
+      providers = providers.map((p, i) => (i === index ? provider : p));
+    }
+    return () => unregister(provider.id);
+  };
+
+  for (const provider of initial) register(provider);
+
+  return {
+    register,
+    unregister,
+    list: () => providers,
+  };
+}
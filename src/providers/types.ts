@@ -0,0 +1,73 @@
+import { Range } from "slate";
+import { DialoguePassage } from "../nlp/dialogue";
+import { TextBlockElement } from "../richText";
+import {
+  Character,
+  CustomRule,
+  LanguageToolConfig,
+  NarrativeStyle,
+  RuleSettings,
+  SuggestionKind,
+  TextNodeEntry,
+} from "../suggestions";
+
+/**
+ * Everything a provider gets to look at when checking one paragraph.
+ * Offsets in `ProviderMatch` are relative to `text`.
+ */
+export type ProviderContext = {
+  text: string;
+  block: TextBlockElement["type"]; // "heading" for chapter and scene titles
+  nodes: TextNodeEntry[]; // one per formatted leaf
+  dialogue: DialoguePassage[]; // quoted speech in `text`; the rest is narration
+  selection: Range | null;
+  customRules: CustomRule[];
+  characters: Character[]; // the document's character registry
+  narrative: NarrativeStyle; // for the whole document, declared or inferred
+  settings: RuleSettings;
+  apiKey: string;
+  languageTool: LanguageToolConfig;
+  // Concrete language for this paragraph ("en-US", "fr"...), from its `lang`, the document
+  // default, or local detection. `autoDetected` means nobody declared it.
+  language: string;
+  autoDetected: boolean;
+  // Aborted when the check is superseded; async providers should forward it to fetch etc.
+  signal: AbortSignal;
+};
+
+/**
+ * The LanguageTool match shape, which every provider speaks.
+ */
+export type ProviderMatch = {
+  kind: SuggestionKind;
+  message: string;
+  offset: number;
+  length: number;
+  replacements: Array<{ value: string }>;
+  ruleId?: string;
+  category?: string;
+  // A possible misspelling: the only kind of match the personal dictionary silences.
+  spelling?: boolean;
+  // Matches sharing a group are applied together (a pronoun and the verbs that agree with it).
+  group?: string;
+  // Overrides the provider's `appliesToDialogue` for this match.
+  appliesToDialogue?: boolean;
+};
+
+export interface SuggestionProvider {
+  id: string;
+  kinds: SuggestionKind[];
+  /**
+   * "document" (default): runs for every paragraph and is cached until its text changes.
+   * "cursor": depends on the selection, so it only runs for the paragraph under the cursor.
+   */
+  scope?: "document" | "cursor";
+  /**
+   * Whether matches inside quoted dialogue are kept (default: true). Characters may speak
+   * informally, so style checks can say no; single matches can override it.
+   */
+  appliesToDialogue?: boolean;
+  /** Skip the provider entirely for this check (e.g. its settings toggle is off). */
+  isEnabled?(ctx: ProviderContext): boolean;
+  check(ctx: ProviderContext): ProviderMatch[] | Promise<ProviderMatch[]>;
+}
@@ -0,0 +1,91 @@
+import { Operation, Path, Point, Range } from "slate";
+import { SuggestionStore } from "./documentStore";
+import { Suggestion } from "./suggestions";
+
+// ------------------------- Rebasing pending suggestions ----------------------------
+
+// Whether text inserted at the edge of a suggestion extends the word it covers.
+const JOINS_WORD = /[\p{L}\p{N}'’-]/u;
+
+/**
+ * Did `op` change the text a suggestion was computed from? Edits merely adjacent to the
+ * range are fine unless they glue more letters onto it ("a" → "an").
+ */
+function editsSuggestedText(range: Range, op: Operation): boolean {
+  const [start, end] = Range.edges(range);
+
+  if (op.type === "insert_text") {
+    const point: Point = { path: op.path, offset: op.offset };
+    if (!Range.includes(range, point)) return false;
+    if (Point.equals(point, start)) return JOINS_WORD.test(op.text[op.text.length - 1] ?? "");
+    if (Point.equals(point, end)) return JOINS_WORD.test(op.text[0] ?? "");
+    return true;
+  }
+
+  if (op.type === "remove_text") {
+    const removed: Range = {
+      anchor: { path: op.path, offset: op.offset },
+      focus: { path: op.path, offset: op.offset + op.text.length },
+    };
+    const overlap = Range.intersection(range, removed);
+    return !!overlap && !Range.isCollapsed(overlap);
+  }
+
+  // Text marked (or unmarked) as a tracked deletion under the range: the checked text changed.
+  if (op.type === "set_node" && ("deletion" in op.newProperties || "deletion" in op.properties)) {
+    return Path.compare(start.path, op.path) <= 0 && Path.compare(op.path, end.path) <= 0;
+  }
+
+  return false;
+}
+
+/**
+ * Carry a suggestion through one operation. Returns `null` when its text was edited or
+ * the nodes under it were removed or split apart into separate blocks.
+ */
+export function transformSuggestion(s: Suggestion, op: Operation): Suggestion | null {
+  if (editsSuggestedText(s.range, op)) return null;
+
+  const range = Range.transform(s.range, op, { affinity: "inward" });
+  if (!range || Range.isCollapsed(range)) return null;
+
+  // A split inside the range that lands its ends in different blocks (Enter mid-word).
+  const [start, end] = Range.edges(range);
+  if (!Path.equals(Path.parent(start.path), Path.parent(end.path))) return null;
+
+  if (Range.equals(range, s.range)) return s;
+  return { ...s, range };
+}
+
+/**
+ * Returns the same array when no suggestion moved, so React state updates can bail out.
+ */
+export function transformSuggestions(suggestions: Suggestion[], ops: readonly Operation[]): Suggestion[] {
+  let changed = false;
+  const next: Suggestion[] = [];
+  for (const s of suggestions) {
+    let current: Suggestion | null = s;
+    for (const op of ops) {
+      current = transformSuggestion(current, op);
+      if (!current) break;
+    }
+    if (current !== s) changed = true;
+    if (current) next.push(current);
+  }
+  return changed ? next : suggestions;
+}
+
+/**
+ * Rebase every cached paragraph result. The checked `text` is left alone, so an edited
+ * paragraph still counts as stale and gets re-checked by the next recompute.
+ */
+export function transformStore(store: SuggestionStore, ops: readonly Operation[]): SuggestionStore {
+  let next: SuggestionStore | null = null;
+  for (const [id, check] of store) {
+    const suggestions = transformSuggestions(check.suggestions, ops);
+    if (suggestions === check.suggestions) continue;
+    next ??= new Map(store);
+    next.set(id, { ...check, suggestions });
+  }
+  return next ?? store;
+}
@@ -0,0 +1,235 @@
+import type { KeyboardEvent } from "react";
+import { BaseEditor, BaseRange, Descendant, Editor, Element as SlateElement, Node, Range, Transforms } from "slate";
+import { HistoryEditor } from "slate-history";
+import { ReactEditor } from "slate-react";
+import type { SuggestionKind } from "./suggestions";
+
+// ------------------------- Rich-text schema ----------------------------
+
+export type MarkFormat = "bold" | "italic" | "underline";
+
+// Chapters are level 1, scenes level 2.
+export type HeadingLevel = 1 | 2;
+
+/**
+ * Blocks that hold text. These are what the checker calls paragraphs: each gets an `id`
+ * and is checked on its own. `lang` overrides the document language (BCP 47, e.g. "fr").
+ */
+export type TextBlockElement = {
+  type: "paragraph" | "heading" | "block-quote" | "list-item";
+  level?: HeadingLevel; // headings only
+  id?: string;
+  lang?: string;
+  children: Descendant[];
+};
+
+export type ListElement = { type: "bulleted-list" | "numbered-list"; children: Descendant[] };
+
+// A void block between scenes, rendered as "* * *". Never checked.
+export type SceneBreakElement = { type: "scene-break"; children: Descendant[] };
+
+// A tracked change (see trackChanges.ts): who made it, when, and the suggestion it applied.
+export type Revision = { id: string; author: string; time: number; reason?: string };
+
+export type CustomText = { text: string; insertion?: Revision; deletion?: Revision } & Partial<Record<MarkFormat, true>>;
+
+// What `decorate` adds to a range: the suggestion underlining it.
+export type SuggestionDecoration = { suggestionId?: string; suggestionKind?: SuggestionKind };
+
+declare module "slate" {
+  interface CustomTypes {
+    Editor: BaseEditor & ReactEditor & HistoryEditor;
+    Element: TextBlockElement | ListElement | SceneBreakElement;
+    Text: CustomText;
+    Range: BaseRange & SuggestionDecoration;
+  }
+}
+
+export const TEXT_BLOCK_TYPES = new Set<string>(["paragraph", "heading", "block-quote", "list-item"]);
+const LIST_TYPES = new Set<string>(["bulleted-list", "numbered-list"]);
+
+// What the toolbar and shortcuts switch a block to.
+export type BlockFormat = "paragraph" | "heading-1" | "heading-2" | "block-quote" | "bulleted-list" | "numbered-list";
+
+export function isTextBlock(n: unknown): n is TextBlockElement {
+  return SlateElement.isElement(n) && TEXT_BLOCK_TYPES.has(n.type);
+}
+
+export function isList(n: unknown): n is ListElement {
+  return SlateElement.isElement(n) && LIST_TYPES.has(n.type);
+}
+
+/**
+ * The text blocks of `nodes` in document order, looking inside lists.
+ */
+export function textBlocks(nodes: Descendant[]): TextBlockElement[] {
+  return nodes.flatMap((n) => (isTextBlock(n) ? [n] : isList(n) ? textBlocks(n.children) : []));
+}
+
+// ---- Marks ----
+
+export function isMarkActive(editor: Editor, format: MarkFormat): boolean {
+  return !!Editor.marks(editor)?.[format];
+}
+
+export function toggleMark(editor: Editor, format: MarkFormat) {
+  if (isMarkActive(editor, format)) Editor.removeMark(editor, format);
+  else Editor.addMark(editor, format, true);
+}
+
+// ---- Blocks ----
+
+export function isBlockActive(editor: Editor, format: BlockFormat): boolean {
+  if (!editor.selection) return false;
+  const at = Editor.unhangRange(editor, editor.selection);
+  const match = (n: Node) => {
+    if (!SlateElement.isElement(n)) return false;
+    if (format === "heading-1" || format === "heading-2") return n.type === "heading" && n.level === Number(format.slice(-1));
+    return n.type === format;
+  };
+  const [found] = Editor.nodes(editor, { at, match });
+  return !!found;
+}
+
+/**
+ * Switch the selected blocks to `format`, or back to paragraphs if they already are.
+ * Lists wrap list items; leaving a list unwraps them.
+ */
+export function toggleBlock(editor: Editor, format: BlockFormat) {
+  const active = format !== "paragraph" && isBlockActive(editor, format);
+  const toList = !active && LIST_TYPES.has(format);
+
+  Transforms.unwrapNodes(editor, { match: isList, split: true });
+  let props: Partial<TextBlockElement> = { type: "paragraph" };
+  if (toList) props = { type: "list-item" };
+  else if (!active && (format === "heading-1" || format === "heading-2")) {
+    props = { type: "heading", level: format === "heading-1" ? 1 : 2 };
+  } else if (!active && format === "block-quote") props = { type: "block-quote" };
+
+  Transforms.setNodes<TextBlockElement>(editor, props, { match: isTextBlock });
+  if (props.type !== "heading") Transforms.unsetNodes(editor, "level", { match: isTextBlock });
+  if (toList) Transforms.wrapNodes(editor, { type: format as ListElement["type"], children: [] }, { match: isTextBlock });
+}
+
+export function insertSceneBreak(editor: Editor) {
+  Transforms.insertNodes(editor, { type: "scene-break", children: [{ text: "" }] });
+  // Typing continues in the block after it (normalization makes sure there is one).
+  const [, path] = Editor.above(editor, { match: (n) => SlateElement.isElement(n) && n.type === "scene-break" }) ?? [];
+  const next = path && Editor.next(editor, { at: path });
+  if (next) Transforms.select(editor, Editor.start(editor, next[1]));
+}
+
+// ---- Keyboard shortcuts ----
+
+const MARK_KEYS: Record<string, MarkFormat> = { KeyB: "bold", KeyI: "italic", KeyU: "underline" };
+const BLOCK_KEYS: Record<string, BlockFormat> = {
+  // Mod+Alt+digit, as in most word processors.
+  "alt:Digit0": "paragraph",
+  "alt:Digit1": "heading-1",
+  "alt:Digit2": "heading-2",
+  // Mod+Shift+digit, as in Google Docs.
+  "shift:Digit7": "numbered-list",
+  "shift:Digit8": "bulleted-list",
+  "shift:Digit9": "block-quote",
+};
+
+/**
+ * Mod+B/I/U toggle marks, Mod+Alt+1/2/0 chapter/scene heading/paragraph, Mod+Shift+7/8/9
+ * numbered list/bulleted list/block quote, Mod+Enter a scene break. Returns whether `event`
+ * was one of them.
+ */
+export function handleRichTextHotkey(editor: Editor, event: KeyboardEvent): boolean {
+  if (!(event.metaKey || event.ctrlKey)) return false;
+  const modifier = event.altKey ? "alt:" : event.shiftKey ? "shift:" : "";
+
+  const mark = modifier === "" ? MARK_KEYS[event.code] : undefined;
+  const block = BLOCK_KEYS[modifier + event.code];
+  if (mark) toggleMark(editor, mark);
+  else if (block) toggleBlock(editor, block);
+  else if (modifier === "" && event.key === "Enter") insertSceneBreak(editor);
+  else return false;
+
+  event.preventDefault();
+  return true;
+}
+
+// ---- Editor plugin ----
+
+function currentTextBlock(editor: Editor) {
+  const { selection } = editor;
+  if (!selection || !Range.isCollapsed(selection)) return undefined;
+  return Editor.above(editor, { at: selection, match: isTextBlock });
+}
+
+/**
+ * Scene breaks are void; lists only hold list items, and list items only live in lists;
+ * the document never ends on a scene break. Enter after a heading starts a paragraph,
+ * Enter in an empty list item leaves the list, and Backspace at the start of a heading,
+ * quote or list item turns it back into a paragraph.
+ */
+export function withRichText<T extends Editor>(editor: T): T {
+  const { isVoid, normalizeNode, insertBreak, deleteBackward } = editor;
+
+  editor.isVoid = (element) => element.type === "scene-break" || isVoid(element);
+
+  editor.normalizeNode = (entry, options) => {
+    const [node, path] = entry;
+
+    if (isList(node)) {
+      for (const [child, childPath] of Node.children(editor, path)) {
+        if (isTextBlock(child) && child.type !== "list-item") {
+          Transforms.setNodes(editor, { type: "list-item" }, { at: childPath });
+          Transforms.unsetNodes(editor, "level", { at: childPath });
+          return;
+        }
+        if (!isTextBlock(child)) {
+          // Text goes into an item of its own; blocks that can't be list items move out.
+          if (SlateElement.isElement(child)) Transforms.liftNodes(editor, { at: childPath });
+          else Transforms.wrapNodes(editor, { type: "list-item", children: [] }, { at: childPath });
+          return;
+        }
+      }
+    }
+
+    if (SlateElement.isElement(node) && node.type === "list-item" && !isList(Node.parent(editor, path))) {
+      Transforms.setNodes(editor, { type: "paragraph" }, { at: path });
+      return;
+    }
+
+    if (path.length === 0) {
+      const last = editor.children[editor.children.length - 1];
+      if (SlateElement.isElement(last) && last.type === "scene-break") {
+        Transforms.insertNodes(editor, { type: "paragraph", children: [{ text: "" }] }, { at: [editor.children.length] });
+        return;
+      }
+    }
+
+    normalizeNode(entry, options);
+  };
+
+  editor.insertBreak = () => {
+    const block = currentTextBlock(editor);
+    if (block && block[0].type === "list-item" && Editor.isEmpty(editor, block[0])) {
+      toggleBlock(editor, "paragraph");
+      return;
+    }
+    insertBreak();
+    const next = currentTextBlock(editor);
+    if (next && next[0].type === "heading" && Editor.isEmpty(editor, next[0])) {
+      Transforms.setNodes(editor, { type: "paragraph" }, { at: next[1] });
+      Transforms.unsetNodes(editor, "level", { at: next[1] });
+    }
+  };
+
+  editor.deleteBackward = (unit) => {
+    const block = currentTextBlock(editor);
+    if (block && block[0].type !== "paragraph" && Editor.isStart(editor, editor.selection!.anchor, block[1])) {
+      toggleBlock(editor, "paragraph");
+      return;
+    }
+    deleteBackward(unit);
+  };
+
+  return editor;
+}
+
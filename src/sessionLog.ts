@@ -0,0 +1,63 @@
+import { Editor, RangeRef } from "slate";
+import { SuggestionKind } from "./suggestions";
+import { acceptedText, listRevisions, replaceText, resolveRevisions } from "./trackChanges";
+import { asOneUndoStep } from "./withUndoSteps";
+
+// ------------------------- Session log ----------------------------
+
+/**
+ * What happened to one suggestion, or one "Align" operation, this session. Skipped
+ * suggestions list the replacement that was offered. Not saved with the document.
+ */
+export type SessionLogEntry = {
+  id: string;
+  status: "applied" | "skipped" | "reverted";
+  kind: SuggestionKind;
+  reason: string;
+  time: number;
+  changes: Array<{ original: string; replacement: string }>;
+  // Why "Revert" did nothing, e.g. the text was edited since.
+  revertError?: string;
+};
+
+/**
+ * One replacement as applied: where the new text is now, and the revision it went in as
+ * when track changes was on.
+ */
+export type AppliedEdit = {
+  ref: RangeRef;
+  original: string;
+  replacement: string;
+  revisionId: string | null;
+};
+
+/**
+ * Put the originals back for `edits`, as one undo step, wherever they are in the history.
+ * A replacement still pending review is rejected; otherwise it is swapped back for the
+ * original (tracked if tracking is on now). Changes nothing and returns false if any of
+ * the replacements has been edited or undone since.
+ */
+export function revertEdits(editor: Editor, edits: AppliedEdit[]): boolean {
+  const pending = new Set(listRevisions(editor.children).map((r) => r.revision.id));
+  const isPending = (edit: AppliedEdit) => !!edit.revisionId && pending.has(edit.revisionId);
+  const unchanged = (edit: AppliedEdit) =>
+    !!edit.ref.current &&
+    Editor.fragment(editor, edit.ref.current).map(acceptedText).join("") === edit.replacement;
+  if (!edits.every((edit) => isPending(edit) || unchanged(edit))) return false;
+
+  asOneUndoStep(editor, () => {
+    Editor.withoutNormalizing(editor, () => {
+      const rejected = new Set<string>();
+      for (const edit of edits) {
+        if (isPending(edit)) {
+          if (!rejected.has(edit.revisionId!)) resolveRevisions(editor, [edit.revisionId!], false);
+          rejected.add(edit.revisionId!);
+        } else {
+          replaceText(editor, edit.ref.current!, edit.original);
+        }
+      }
+    });
+  });
+  for (const edit of edits) edit.ref.unref();
+  return true;
+}
@@ -0,0 +1,132 @@
+import { Descendant } from "slate";
+import { Character, CustomRule, LanguageToolConfig, NarrativeStyle, RuleSettings } from "./suggestions";
+import { TrackChangesSettings } from "./trackChanges";
+
+// ------------------------- Persistence (localStorage) ----------------------------
+
+export const STORAGE_PREFIX = "slate-grammar-demo";
+
+export function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (e) {
+    console.error(`Could not read ${key} from localStorage:`, e);
+    return fallback;
+  }
+}
+
+export function writeJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Quota exceeded or storage disabled (private mode): keep working in memory.
+    console.error(`Could not save ${key} to localStorage:`, e);
+  }
+}
+
+// ---- App state (document, style guide, settings) ----
+
+/**
+ * Everything restored on reload. The LanguageTool API key is left out on purpose; like
+ * the Gemini key it is a secret, and it comes from the environment.
+ */
+export type PersistedState = {
+  document: Descendant[];
+  customRules: CustomRule[];
+  characters: Character[];
+  narrative: NarrativeStyle; // as declared; null fields are inferred
+  ruleSettings: RuleSettings;
+  languageTool: Omit<LanguageToolConfig, "apiKey">;
+  documentLanguage: string;
+  trackChanges: TrackChangesSettings;
+};
+
+const STATE_KEY = `${STORAGE_PREFIX}:state`;
+const GEMINI_KEY = `${STORAGE_PREFIX}:gemini-key`;
+
+// Bump when a stored shape changes, and add a migration from the previous version.
+export const SCHEMA_VERSION = 2;
+
+/**
+ * `MIGRATIONS[n]` upgrades data saved at version `n` to `n + 1`, e.g. filling in a new
+ * `CustomRule` field: `(data) => ({ ...data, customRules: data.customRules.map(...) })`.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // 1 → 2: a single literal `replacement` became a list of `replacements` templates.
+  1: (data) => ({
+    ...data,
+    customRules: (data.customRules ?? []).map(({ replacement, ...rule }: any) => ({
+      ...rule,
+      replacements: replacement ? [replacement.replace(/\$/g, "$$$$")] : [],
+    })),
+  }),
+};
+
+function migrate(data: any): any | null {
+  let version = typeof data?.version === "number" ? data.version : 0;
+  if (version > SCHEMA_VERSION) {
+    console.error(`Saved state is from a newer version (${version}); ignoring it.`);
+    return null;
+  }
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      console.error(`No migration from saved state version ${version}; ignoring it.`);
+      return null;
+    }
+    data = step(data);
+    version++;
+  }
+  return data;
+}
+
+/**
+ * The saved state merged over `defaults`, so settings added since it was saved get
+ * their default values. Falls back to `defaults` when nothing usable is stored.
+ */
+export function loadState(defaults: PersistedState): PersistedState {
+  const stored = readJSON<any>(STATE_KEY, null);
+  // First visit: nothing to migrate.
+  if (stored === null) return defaults;
+  const data = migrate(stored);
+  if (!data) return defaults;
+
+  return {
+    document: Array.isArray(data.document) && data.document.length > 0 ? data.document : defaults.document,
+    customRules: Array.isArray(data.customRules) ? data.customRules : defaults.customRules,
+    characters: Array.isArray(data.characters) ? data.characters : defaults.characters,
+    narrative: { ...defaults.narrative, ...data.narrative },
+    ruleSettings: { ...defaults.ruleSettings, ...data.ruleSettings },
+    languageTool: { ...defaults.languageTool, ...data.languageTool },
+    documentLanguage: typeof data.documentLanguage === "string" ? data.documentLanguage : defaults.documentLanguage,
+    trackChanges: { ...defaults.trackChanges, ...data.trackChanges },
+  };
+}
+
+export function saveState(state: PersistedState) {
+  // Callers usually hand over the full LT config; make sure its key is never written.
+  const { apiKey: _apiKey, ...languageTool } = state.languageTool as LanguageToolConfig;
+  writeJSON(STATE_KEY, { version: SCHEMA_VERSION, ...state, languageTool });
+}
+
+// ---- Gemini API key (kept apart, only stored when the user opts in) ----
+
+export function loadGeminiKey(): string | null {
+  return readJSON<string | null>(GEMINI_KEY, null);
+}
+
+/**
+ * Pass `null` to forget the key.
+ */
+export function saveGeminiKey(key: string | null) {
+  if (key !== null) {
+    writeJSON(GEMINI_KEY, key);
+    return;
+  }
+  try {
+    localStorage.removeItem(GEMINI_KEY);
+  } catch (e) {
+    console.error(`Could not remove ${GEMINI_KEY} from localStorage:`, e);
+  }
+}
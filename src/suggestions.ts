@@ -0,0 +1,169 @@
+import { Path, Point, Range } from "slate";
+
+// ------------------------- Shared suggestion types ---------------------------
+
+export type SuggestionKind =
+  | "grammar"
+  | "pov-pronoun-propagation"
+  | "narrative-consistency";
+
+export type Suggestion = {
+  id: string;
+  kind: SuggestionKind;
+  range: Range; // slate range (can span multiple nodes)
+  original: string; // the text under `range` when it was checked
+  replacements: string[]; // ranked, best first; may be empty (message only)
+  reason: string;
+  ruleId?: string;
+  category?: string;
+  spelling?: boolean; // a possible misspelling, which "Add to dictionary" can silence
+  group?: string; // suggestions with the same group are applied together
+};
+
+// A sentence the rule should (or should not) flag; checked live in the rule editor.
+export type RuleExample = {
+  text: string;
+  shouldMatch: boolean;
+};
+
+/**
+ * One element of a token pattern, mirroring LanguageTool's `<token>`: `text` is the word
+ * (a regex when `regexp`), compared with lemmas when `inflected`; `postag` is a POS tag
+ * (a regex when `postagRegexp`). `skip` lets up to that many tokens (-1: any number)
+ * follow before the next element. Empty `text` and no `postag` match any token.
+ */
+export type TokenPattern = {
+  text?: string;
+  regexp?: boolean;
+  inflected?: boolean;
+  negate?: boolean;
+  postag?: string;
+  postagRegexp?: boolean;
+  negatePos?: boolean;
+  skip?: number;
+  marker?: boolean; // only marked tokens are flagged; none marked flags them all
+  exceptions?: TokenPattern[]; // the token does not match if one of these does
+};
+
+export type CustomRule = {
+  id: string;
+  intent: string;
+  pattern: string; // The regex pattern
+  tokens?: TokenPattern[]; // when set, the rule matches these instead of `pattern`
+  message: string;
+  // Templates (`$1`, `$<name>`); several mean alternatives, "" deletes the match, none only flags it.
+  // In token rules `$N` is the text of the N-th token element.
+  replacements: string[];
+  xml?: string;
+  examples?: RuleExample[];
+  // false: matches inside quoted dialogue are dropped, since characters may talk differently. Default: true.
+  appliesToDialogue?: boolean;
+  // Set when the rule was switched off automatically (too slow or unusable); `warning` says why.
+  disabled?: boolean;
+  warning?: string;
+};
+
+// The grammatical slots a pronoun set fills ("xe", "xem", "xyr", "xyrs", "xemself").
+export type PronounForm = "subject" | "object" | "possessive" | "possessivePronoun" | "reflexive";
+
+// "" for forms a language doesn't mark for the referent (e.g. French only has il/elle/iel).
+export type PronounSet = Record<PronounForm, string>;
+
+/**
+ * A character in the document's registry. Pronoun alignment only rewrites pronouns
+ * attributed to the character it is run for.
+ */
+export type Character = {
+  id: string;
+  name: string;
+  aliases: string[];
+  pronouns: PronounSet;
+};
+
+export type NarrativePerson = "first" | "third";
+export type NarrativeTense = "past" | "present";
+
+/**
+ * How the story is told: declared in the settings, or inferred from the narration (the
+ * text outside quotes). `null` where it is neither declared nor clear.
+ */
+export type NarrativeStyle = {
+  person: NarrativePerson | null;
+  tense: NarrativeTense | null;
+  narratorId: string | null; // the registered character telling it, if any
+};
+
+export type RuleSettings = {
+  ltTypos: boolean;
+  ltGrammar: boolean;
+  ltStyle: boolean;
+  ltPunctuation: boolean;
+  povPropagation: boolean;
+  localFallbacks: boolean;
+  narrativeConsistency: boolean;
+};
+
+/**
+ * Where and how the `languagetool` provider checks text. Defaults come from `VITE_LT_*` env vars.
+ */
+export type LanguageToolConfig = {
+  baseUrl: string; // e.g. https://api.languagetool.org or http://localhost:8081
+  motherTongue: string;
+  username: string; // premium accounts: username + apiKey
+  apiKey: string;
+  picky: boolean; // level=picky
+  enabledRules: string[];
+  disabledRules: string[];
+  maxChunkLength: number; // longer paragraphs are split at sentence boundaries
+};
+
+/**
+ * A text leaf inside a paragraph, with its offsets into the paragraph string.
+ */
+export type TextNodeEntry = { path: Path; text: string; start: number; end: number };
+
+export function uid() {
+  // Good enough for a demo
+  return Math.random().toString(16).slice(2);
+}
+
+type OffsetNode = { path: Path; start: number; end: number };
+
+/**
+ * The point at `offset`. On the boundary between two leaves (bold → plain), a start
+ * belongs to the leaf after it and an end to the leaf before it, so a range never
+ * begins or ends on a leaf it doesn't cover. Empty leaves are only used when nothing
+ * else can hold the point.
+ */
+function pointAtOffset(nodes: OffsetNode[], offset: number, side: "start" | "end"): Point | null {
+  const inside =
+    side === "start"
+      ? nodes.find((n) => offset >= n.start && offset < n.end)
+      : nodes.find((n) => offset > n.start && offset <= n.end);
+  const node = inside ?? nodes.find((n) => offset >= n.start && offset <= n.end);
+  return node ? { path: node.path, offset: offset - node.start } : null;
+}
+
+/**
+ * Paragraph offsets → a Slate range over its text leaves (`nodes`, in order). Null when
+ * the offsets fall outside the leaves, e.g. for a check of text that has since shrunk.
+ */
+export function getRangeFromOffsets(nodes: OffsetNode[], start: number, end: number): Range | null {
+  if (start < 0 || end < start) return null;
+  const anchor = pointAtOffset(nodes, start, "start");
+  // An empty match (an insertion point) stays on one leaf.
+  const focus = start === end ? anchor : pointAtOffset(nodes, end, "end");
+  if (anchor && focus) return { anchor, focus };
+  return null;
+}
+
+/**
+ * Order suggestions by document position: earlier paths/offsets first.
+ */
+export function compareSuggestions(a: Suggestion, b: Suggestion) {
+  const as = Range.start(a.range);
+  const bs = Range.start(b.range);
+  const pathCompare = Path.compare(as.path, bs.path);
+  if (pathCompare !== 0) return pathCompare;
+  return as.offset - bs.offset;
+}
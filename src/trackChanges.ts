@@ -0,0 +1,288 @@
+import { Descendant, Editor, Element as SlateElement, Node, Path, Point, Range, Text, Transforms } from "slate";
+import { CustomText, Revision } from "./richText";
+import { uid } from "./suggestions";
+
+// ------------------------- Track changes ----------------------------
+
+/**
+ * With tracking on, text typed or replaced is kept as an insertion and text deleted stays
+ * in place as a deletion, each marked on its leaf with the revision that made it, until
+ * the change is accepted or rejected. Splitting and joining blocks, formatting and pastes
+ * are not tracked.
+ */
+export type TrackingOptions = { author: string };
+
+// The on/off switch and author name, as saved with the app state.
+export type TrackChangesSettings = TrackingOptions & { enabled: boolean };
+
+const TRACKING = new WeakMap<Editor, TrackingOptions>();
+// The revision every tracked edit joins while `withRevision` runs.
+const CURRENT = new WeakMap<Editor, Revision>();
+
+export function setTracking(editor: Editor, options: TrackingOptions | null) {
+  if (options) TRACKING.set(editor, options);
+  else TRACKING.delete(editor);
+}
+
+export function isTracking(editor: Editor): boolean {
+  return TRACKING.has(editor);
+}
+
+/**
+ * Run `fn` with every tracked edit in it recorded as one revision carrying `reason` (the
+ * suggestion being applied), so accepting or rejecting it takes the whole replacement.
+ * Nested calls join the outer revision. Returns the revision's id; null when not tracking.
+ */
+export function withRevision(editor: Editor, reason: string, fn: () => void): string | null {
+  const options = TRACKING.get(editor);
+  const current = CURRENT.get(editor);
+  if (!options || current) {
+    fn();
+    return current?.id ?? null;
+  }
+  const revision: Revision = { id: uid(), author: options.author, time: Date.now(), reason };
+  CURRENT.set(editor, revision);
+  try {
+    fn();
+  } finally {
+    CURRENT.delete(editor);
+  }
+  return revision.id;
+}
+
+// ---- Editing ----
+
+/**
+ * The revision for an edit around `points`: the current `withRevision` one, else the
+ * author's own plain typing right next to it (so a typed word is one change, not one per
+ * letter), else a new one.
+ */
+function revisionAt(editor: Editor, points: Point[], kind: "insertion" | "deletion"): Revision {
+  const current = CURRENT.get(editor);
+  if (current) return current;
+  const { author } = TRACKING.get(editor)!;
+  for (const point of points) {
+    const block = Path.parent(point.path);
+    const around = [Editor.before(editor, point), point, Editor.after(editor, point)];
+    for (const at of around) {
+      if (!at || !Path.equals(Path.parent(at.path), block)) continue;
+      const own = (Node.get(editor, at.path) as CustomText)[kind];
+      if (own && own.author === author && !own.reason) return own;
+    }
+  }
+  return { id: uid(), author, time: Date.now() };
+}
+
+// Bold, italic and underline, without the revision marks of the leaf they came from.
+function plainMarks(leaf: Partial<CustomText>): Omit<CustomText, "text"> {
+  const { text: _text, insertion: _insertion, deletion: _deletion, ...marks } = leaf;
+  return marks;
+}
+
+/**
+ * Delete `range` as a tracked change: text still pending as an insertion is removed
+ * outright, everything else is marked deleted. Returns where the range ends up.
+ */
+function deleteTracked(editor: Editor, range: Range, revision: Revision): Range {
+  const ref = Editor.rangeRef(editor, range, { affinity: "inward" });
+  Editor.withoutNormalizing(editor, () => {
+    const inserted: Range[] = [];
+    for (const [node, path] of Editor.nodes(editor, { at: range, match: Text.isText })) {
+      const part = node.insertion && Range.intersection(range, Editor.range(editor, path));
+      if (part && !Range.isCollapsed(part)) inserted.push(part);
+    }
+    for (const part of inserted.reverse()) Transforms.delete(editor, { at: part });
+
+    if (ref.current && Range.isExpanded(ref.current)) {
+      Transforms.setNodes(editor, { deletion: revision }, {
+        at: ref.current,
+        match: (n) => Text.isText(n) && !n.deletion && !n.insertion,
+        split: true,
+      });
+    }
+  });
+  return ref.unref() ?? Editor.range(editor, Range.start(range));
+}
+
+function insertTracked(editor: Editor, at: Point, text: string, revision: Revision, marks: Omit<CustomText, "text">) {
+  Transforms.insertNodes(editor, { ...marks, text, insertion: revision }, { at, select: true });
+}
+
+/**
+ * Replace `range` with `text`: a tracked deletion plus insertion while tracking, a plain
+ * edit otherwise. The replacement keeps the formatting of the text it replaces. Returns
+ * the range of the replacement, valid until the document is next normalized.
+ */
+export function replaceText(editor: Editor, range: Range, text: string): Range {
+  if (!isTracking(editor)) {
+    let at = Range.start(range);
+    // Inserted into the start leaf, kept (if emptied) until normalizing, for its formatting.
+    Editor.withoutNormalizing(editor, () => {
+      const start = Editor.pointRef(editor, at, { affinity: "backward" });
+      if (Range.isExpanded(range)) Transforms.delete(editor, { at: range });
+      at = start.unref()!;
+      Transforms.insertText(editor, text, { at });
+    });
+    return { anchor: at, focus: { path: at.path, offset: at.offset + text.length } };
+  }
+
+  const start = Range.start(range);
+  const marks = plainMarks(Editor.leaf(editor, start)[0]);
+  const revision = revisionAt(editor, Range.edges(range), "insertion");
+  // Inserting moves the cursor into the new text; it goes back where it was afterwards.
+  const selection = editor.selection && Editor.rangeRef(editor, editor.selection);
+  let replacement: Range = range;
+  Editor.withoutNormalizing(editor, () => {
+    const at = Range.end(Range.isExpanded(range) ? deleteTracked(editor, range, revision) : range);
+    replacement = { anchor: at, focus: at };
+    if (!text) return;
+    insertTracked(editor, at, text, revision, marks);
+    const end = editor.selection!.anchor;
+    replacement = { anchor: { path: end.path, offset: 0 }, focus: end };
+  });
+  const restored = selection?.unref();
+  if (restored) Transforms.select(editor, restored);
+  return replacement;
+}
+
+/**
+ * Track typing and deleting while `setTracking` is on. Deleting across the start or end
+ * of a block still joins the blocks, untracked.
+ */
+export function withTrackChanges<T extends Editor>(editor: T): T {
+  const { insertText, deleteBackward, deleteForward, deleteFragment } = editor;
+
+  editor.insertText = (text, options) => {
+    const { selection } = editor;
+    if (!isTracking(editor) || options?.at || !selection) {
+      insertText(text, options);
+      return;
+    }
+    const revision = revisionAt(editor, Range.edges(selection), "insertion");
+    Editor.withoutNormalizing(editor, () => {
+      const marks = plainMarks(Editor.marks(editor) ?? {});
+      const at = Range.isExpanded(selection) ? Range.end(deleteTracked(editor, selection, revision)) : selection.anchor;
+      insertTracked(editor, at, text, revision, marks);
+      editor.marks = null;
+    });
+  };
+
+  // One character (or word, line…) before or after the cursor, within its block.
+  const deleteCharacter = (direction: "backward" | "forward", unit: Parameters<typeof deleteBackward>[0]) => {
+    const { selection } = editor;
+    if (!isTracking(editor) || !selection || !Range.isCollapsed(selection)) return false;
+    const point = selection.anchor;
+    const other = direction === "backward"
+      ? Editor.before(editor, point, { unit })
+      : Editor.after(editor, point, { unit });
+    if (!other || !Path.equals(Path.parent(other.path), Path.parent(point.path))) return false;
+    const parent = Node.parent(editor, point.path);
+    if (SlateElement.isElement(parent) && Editor.isVoid(editor, parent)) return false;
+
+    const range = { anchor: other, focus: point };
+    const deleted = deleteTracked(editor, range, revisionAt(editor, [other, point], "deletion"));
+    // Step over the text now struck through, as if it were gone.
+    Transforms.select(editor, direction === "backward" ? Range.start(deleted) : Range.end(deleted));
+    return true;
+  };
+
+  editor.deleteBackward = (unit) => {
+    if (!deleteCharacter("backward", unit)) deleteBackward(unit);
+  };
+
+  editor.deleteForward = (unit) => {
+    if (!deleteCharacter("forward", unit)) deleteForward(unit);
+  };
+
+  editor.deleteFragment = (options) => {
+    const { selection } = editor;
+    if (!isTracking(editor) || !selection || Range.isCollapsed(selection)) {
+      deleteFragment(options);
+      return;
+    }
+    const deleted = deleteTracked(editor, selection, revisionAt(editor, Range.edges(selection), "deletion"));
+    Transforms.select(editor, options?.direction === "backward" ? Range.start(deleted) : Range.end(deleted));
+  };
+
+  return editor;
+}
+
+// ---- Reviewing ----
+
+export type RevisionSummary = {
+  revision: Revision;
+  inserted: string;
+  deleted: string;
+};
+
+/**
+ * Every pending revision in document order, with the text it inserted and deleted.
+ */
+export function listRevisions(nodes: Descendant[]): RevisionSummary[] {
+  const byId = new Map<string, RevisionSummary>();
+  for (const node of nodes) {
+    for (const [leaf] of Node.texts(node)) {
+      for (const kind of ["insertion", "deletion"] as const) {
+        const revision = leaf[kind];
+        if (!revision) continue;
+        if (!byId.has(revision.id)) byId.set(revision.id, { revision, inserted: "", deleted: "" });
+        const summary = byId.get(revision.id)!;
+        if (kind === "insertion") summary.inserted += leaf.text;
+        else summary.deleted += leaf.text;
+      }
+    }
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Accept (keep insertions, drop deletions) or reject (the other way round) the revisions
+ * with the given ids, or all of them for `null`.
+ */
+export function resolveRevisions(editor: Editor, ids: string[] | null, accept: boolean) {
+  const picked = (revision?: Revision) => !!revision && (ids === null || ids.includes(revision.id));
+  const leaves = Array.from(
+    Editor.nodes(editor, {
+      at: [],
+      match: (n) => Text.isText(n) && (picked(n.insertion) || picked(n.deletion)),
+      reverse: true,
+    })
+  ) as Array<[CustomText, Path]>;
+
+  Editor.withoutNormalizing(editor, () => {
+    for (const [leaf, path] of leaves) {
+      const kind = picked(leaf.insertion) ? "insertion" : "deletion";
+      if ((kind === "deletion") === accept) Transforms.removeNodes(editor, { at: path });
+      else Transforms.unsetNodes(editor, kind, { at: path });
+    }
+  });
+}
+
+// ---- The accepted view ----
+
+/**
+ * A block's text as it reads with every change accepted: deleted text left out. This is
+ * the text the checker sees.
+ */
+export function acceptedText(node: Node): string {
+  if (Text.isText(node)) return node.deletion ? "" : node.text;
+  let text = "";
+  for (const [leaf] of Node.texts(node)) {
+    if (!leaf.deletion) text += leaf.text;
+  }
+  return text;
+}
+
+/**
+ * `nodes` with every change accepted, for exports that can't show revisions.
+ */
+export function acceptedView(nodes: Descendant[]): Descendant[] {
+  return nodes.map((node) => {
+    if (Text.isText(node)) {
+      const { insertion: _insertion, ...rest } = node;
+      return rest;
+    }
+    const children = acceptedView(node.children).filter((child) => !Text.isText(child) || !child.deletion);
+    return { ...node, children: children.length > 0 ? children : [{ text: "" }] } as Descendant;
+  });
+}
@@ -0,0 +1,36 @@
+import { Editor, Path, Transforms } from "slate";
+import { isParagraph } from "./documentStore";
+import { uid } from "./suggestions";
+
+/**
+ * Give every paragraph a stable `id` so cached suggestions can follow it when other
+ * paragraphs are inserted, split or removed. Splitting copies the id onto the new node,
+ * so a paragraph re-using an earlier paragraph's id is re-keyed too.
+ */
+export function withParagraphIds<T extends Editor>(editor: T): T {
+  const { normalizeNode } = editor;
+
+  // One pass over the document with the ids seen so far, rather than a search per paragraph,
+  // so loading or pasting a long manuscript stays linear.
+  const assignIds = () => {
+    const seen = new Set<string>();
+    const missing: Path[] = [];
+    for (const [node, path] of Editor.nodes(editor, { at: [], match: isParagraph, pass: ([n]) => isParagraph(n) })) {
+      if (node.id && !seen.has(node.id)) seen.add(node.id);
+      else missing.push(path);
+    }
+    for (const path of missing) Transforms.setNodes(editor, { id: uid() }, { at: path });
+  };
+
+  editor.normalizeNode = (entry, options) => {
+    const [, path] = entry;
+
+    // Only inserting and splitting bring in paragraphs without an id or with a copied one.
+    const added = editor.operations.some((op) => op.type === "insert_node" || op.type === "split_node");
+    if (path.length === 0 && added) assignIds();
+
+    normalizeNode(entry, options);
+  };
+
+  return editor;
+}
@@ -0,0 +1,35 @@
+import { Editor, Transforms } from "slate";
+import { parseHtml } from "./formats/html";
+import { looksLikeMarkdown, parseMarkdown } from "./formats/markdown";
+
+/**
+ * Paste from other apps as document blocks: HTML (word processors, web pages) by its
+ * structure and marks, plain text that reads as Markdown by its syntax. Copies within
+ * the editor keep Slate's own fragment; anything else pastes as text.
+ */
+export function withPaste<T extends Editor>(editor: T): T {
+  const { insertData } = editor;
+
+  editor.insertData = (data) => {
+    if (data.types.includes("application/x-slate-fragment")) {
+      insertData(data);
+      return;
+    }
+
+    const html = data.getData("text/html");
+    const blocks = html ? parseHtml(html) : [];
+    if (blocks.length > 0) {
+      Transforms.insertFragment(editor, blocks);
+      return;
+    }
+
+    const text = data.getData("text/plain");
+    if (text && looksLikeMarkdown(text)) {
+      Transforms.insertFragment(editor, parseMarkdown(text));
+      return;
+    }
+    insertData(data);
+  };
+
+  return editor;
+}
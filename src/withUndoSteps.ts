@@ -0,0 +1,39 @@
+import { Editor } from "slate";
+import { HistoryEditor } from "slate-history";
+
+type Batch = Editor["history"]["undos"][number];
+
+// Batches `asOneUndoStep` made; nothing merges into them afterwards.
+const SEALED = new WeakSet<Batch>();
+
+/**
+ * Run `fn` as exactly one undo step: its edits never merge into the typing before it, and
+ * typing after it never merges into them, so one Ctrl+Z takes back all of `fn` and only `fn`.
+ * Selection changes in `fn` aren't recorded; undo puts the cursor back where it was before.
+ */
+export function asOneUndoStep(editor: Editor, fn: () => void) {
+  const lastBatch = () => editor.history.undos[editor.history.undos.length - 1];
+  const before = lastBatch();
+  HistoryEditor.withNewBatch(editor, fn);
+  const batch = lastBatch();
+  if (batch && batch !== before) SEALED.add(batch);
+}
+
+/**
+ * Keep `asOneUndoStep` batches closed: slate-history merges adjacent typing into the last
+ * batch, which would fold the next word typed after an applied fix into the fix.
+ */
+export function withUndoSteps<T extends Editor>(editor: T): T {
+  const { apply } = editor;
+
+  editor.apply = (op) => {
+    const last = editor.history.undos[editor.history.undos.length - 1];
+    if (op.type !== "set_selection" && last && SEALED.has(last) && HistoryEditor.isMerging(editor) === undefined) {
+      HistoryEditor.withNewBatch(editor, () => apply(op));
+      return;
+    }
+    apply(op);
+  };
+
+  return editor;
+}